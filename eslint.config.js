@@ -35,4 +35,10 @@ export default defineConfig([
       'no-debugger': 'warn',
     },
   },
+  // Node-side dev scripts (mock servers etc.)
+  {
+    files: ['scripts/**/*.js'],
+    languageOptions: { globals: { ...globals.node } },
+    rules: { 'no-console': 'off' },
+  },
 ])
@@ -0,0 +1,36 @@
+// Local stand-in for the admin portal's enrollment token issuer (see src/enrollment.ts).
+//   npm run enroll:token -- keygen
+//       -> prints a public key (paste into Settings > Enrollment) and a private key (keep it)
+//   ENROLL_PRIVATE_KEY=<key> npm run enroll:token -- sign <org> <site> [hours=24]
+//       -> prints a BWE1 token valid for the given number of hours
+import { webcrypto as crypto } from 'node:crypto';
+
+const ALG = { name: 'ECDSA', namedCurve: 'P-256' };
+const b64url = (buf) => Buffer.from(buf).toString('base64url');
+
+async function keygen() {
+  const { publicKey, privateKey } = await crypto.subtle.generateKey(ALG, true, ['sign', 'verify']);
+  console.log(`public key:  ${b64url(await crypto.subtle.exportKey('spki', publicKey))}`);
+  console.log(`private key: ${b64url(await crypto.subtle.exportKey('pkcs8', privateKey))}`);
+}
+
+async function sign(org, site, hours = '24') {
+  const pkcs8 = process.env.ENROLL_PRIVATE_KEY;
+  if (!pkcs8 || !org || !site) usage();
+  const key = await crypto.subtle.importKey('pkcs8', Buffer.from(pkcs8, 'base64url'), ALG, false, ['sign']);
+  const iat = Math.floor(Date.now() / 1000);
+  const payload = b64url(JSON.stringify({ org, site, iat, exp: iat + Math.round(Number(hours) * 3600) }));
+  const signed = `BWE1.${payload}`;
+  const sig = await crypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, key, Buffer.from(signed));
+  console.log(`${signed}.${b64url(sig)}`);
+}
+
+function usage() {
+  console.error('usage: enrollment-token.js keygen | sign <org> <site> [hours]  (sign needs ENROLL_PRIVATE_KEY)');
+  process.exit(1);
+}
+
+const [cmd, ...args] = process.argv.slice(2);
+if (cmd === 'keygen') await keygen();
+else if (cmd === 'sign') await sign(...args);
+else usage();
@@ -0,0 +1,51 @@
+// Local stand-in for the punch ingestion API used by src/sync.ts.
+//   npm run mock:sync                 -> http://localhost:8787/events
+//   FAIL_RATE=0.5 npm run mock:sync   -> randomly 503 half the requests to exercise retries
+// Accepted events are kept in memory and listed by GET /events.
+import http from 'node:http';
+
+const PORT = Number(process.env.PORT) || 8787;
+const FAIL_RATE = Number(process.env.FAIL_RATE) || 0;
+const received = new Map(); // idempotency key -> event
+
+const cors = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Idempotency-Key',
+};
+
+function reply(res, status, body) {
+  res.writeHead(status, { ...cors, 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+http
+  .createServer((req, res) => {
+    if (req.method === 'OPTIONS') return reply(res, 204, {});
+    if (req.url !== '/events') return reply(res, 404, { error: 'not found' });
+    if (req.method === 'GET') return reply(res, 200, [...received.values()]);
+    if (req.method !== 'POST') return reply(res, 405, { error: 'method not allowed' });
+
+    let raw = '';
+    req.on('data', (chunk) => (raw += chunk));
+    req.on('end', () => {
+      const key = req.headers['idempotency-key'];
+      if (!key) return reply(res, 400, { error: 'missing Idempotency-Key' });
+      if (Math.random() < FAIL_RATE) return reply(res, 503, { error: 'simulated outage' });
+
+      let event;
+      try {
+        event = JSON.parse(raw);
+      } catch {
+        return reply(res, 400, { error: 'invalid JSON' });
+      }
+      if (received.has(key)) {
+        console.log(`dup  ${key}`);
+        return reply(res, 200, { id: event.id, status: 'duplicate' });
+      }
+      received.set(key, event);
+      console.log(`ok   ${key} seq=${event.offlineSeq} ${event.type} @ ${event.ts}`);
+      reply(res, 200, { id: event.id, status: 'accepted' });
+    });
+  })
+  .listen(PORT, () => console.log(`mock sync server on http://localhost:${PORT}/events`));
@@ -1,144 +1,228 @@
 import React, { useEffect, useMemo, useRef, useState } from "react";
+import jsQR from "jsqr";
+import { loadDB, loadEventSelfie, mapEventSelfies, resetDB, saveDB, saveEventSelfie } from "./db";
+import {
+  PUNCH_LABELS,
+  describeException,
+  describeState,
+  punchState,
+  suggestedPunch,
+  transitionException,
+} from "./punch";
+import { useSyncEngine, type SyncInfo } from "./sync";
+import { CHAIN_PROBLEM_LABELS, chainEvent, describeChain, sealAmendments, sealFaceMatch, useChainReport, type ChainReport } from "./chain";
+import {
+  MIN_CODE_LENGTH,
+  ROLE_LABELS,
+  SESSION_IDLE_MINUTES,
+  audit,
+  can,
+  checkLogin,
+  loginFailed,
+  loginLockedUntil,
+  newAccount,
+  normalizeUsername,
+  validCode,
+  validUsername,
+} from "./accounts";
+import {
+  REASON_LABELS,
+  amendEvent,
+  describeAmendment,
+  liveEvents,
+  manualEvent,
+  voidEvent,
+  type AmendMeta,
+} from "./corrections";
+import { newBadgeKey, printBadges, verifyBadge } from "./badge";
+import { newDeviceId, tokenFingerprint, validPublicKey, verifyEnrollmentToken } from "./enrollment";
+import { normalizeCard, useCardReader } from "./cardReader";
+import { PIN_MAX_ATTEMPTS, checkPin, hashPin, pinLockedUntil, validPin } from "./pin";
+import {
+  DEFAULT_MEAL_REQUIRED_AFTER_HOURS,
+  ORPHAN_LABELS,
+  addDays,
+  fmtHours,
+  startOfWeek,
+  weekSummary,
+} from "./timesheet";
+import type {
+  AmendmentReason,
+  AppendEvent,
+  DB,
+  DeviceSettings,
+  Employee,
+  EventRecord,
+  Liveness,
+  ManagerAccount,
+  ManagerRole,
+  PunchType,
+  RetentionClass,
+  RetentionPolicy,
+  RollCall,
+  SaveDB,
+  ScheduleRule,
+  SelfieRef,
+  Site,
+  WebAuthnCredential,
+} from "./types";
+import { nowISO, sleep, uid } from "./util";
+import {
+  createKeyring,
+  decryptField,
+  discardEncrypted,
+  encryptEmployee,
+  encryptEvent,
+  isEncrypted,
+  isUnlocked,
+  lockVault,
+  needsSettling,
+  rotateDeviceKey,
+  rotateRecoveryKey,
+  settleVault,
+  unlockWithCode,
+  unlockWithRecoveryKey,
+  useDecrypted,
+  wrapVaultForCode,
+} from "./vault";
+import { enrollCredential, verifyCredential } from "./webauthn";
+import {
+  EXPORT_PRESETS,
+  OVERTIME_WEEKLY_HOURS,
+  ROW_LEVEL_LABELS,
+  buildExport,
+  columnsFor,
+  type RowLevel,
+  type TimeZoneMode,
+} from "./exporter";
+import {
+  ROSTER_FIELDS,
+  applyImport,
+  guessMapping,
+  planImport,
+  readRoster,
+  rejectReport,
+  type PlannedRow,
+  type Roster,
+  type RosterField,
+  type RosterMapping,
+} from "./roster";
+import {
+  DEFAULT_EARLY_GRACE_MINUTES,
+  DEFAULT_LATE_GRACE_MINUTES,
+  SCHEDULE_TAG_LABELS,
+  WEEKDAY_LABELS,
+  dailyAttendance,
+  describeRule,
+  graceOf,
+  schedulePunch,
+  validTime,
+  type AttendanceStatus,
+} from "./schedule";
+import {
+  ALL_SITES,
+  ensureSite,
+  formatInSite,
+  inSite,
+  siteLabel,
+  siteOptions,
+  siteRollup,
+  timeZones,
+  validSiteId,
+  validTimeZone,
+  type SiteOption,
+} from "./sites";
+import { DEFAULT_FACE_MATCH_THRESHOLD, matchSelfie, profileTemplate, usePendingScores } from "./facematch";
+import {
+  LIVENESS_INTERVAL_MS,
+  LIVENESS_PROMPTS,
+  LIVENESS_TIMEOUT_MS,
+  grayFrame,
+  livenessPassed,
+  pickChallenge,
+} from "./liveness";
+import {
+  RETENTION_CLASSES,
+  RETENTION_LABELS,
+  describePurge,
+  onHold,
+  retentionDays,
+  runRetention,
+  useScheduledPurge,
+} from "./retention";
+import { QUOTA_WARN_RATIO, formatBytes, nearQuota, prepareSelfie, useStorageUsage } from "./selfies";
+import { ON_SITE_LABELS, onSiteNow, printRollCall, rollCallCSV, sinceLabel, type OnSite } from "./rollcall";
+import {
+  EMPLOYEE_SORT_LABELS,
+  eraseEmployee,
+  fullName,
+  moveEmployee,
+  searchEmployees,
+  sortEmployees,
+  type EmployeeSort,
+} from "./employees";
 
 /* ============================================================================
    KIOSK TIME CLOCK – BLACK & WHITE (MVP, functional + MVP layout)
-   - Employee ID flow (+ biometric hold + optional selfie)
+   - Employee ID flow (+ WebAuthn biometric + optional selfie)
    - Self-register with manager approval
-   - Device enrollment & admin code (demo only)
-   - Local offline queue + event log
-   - CSV export
+   - Signed device enrollment tokens, revoke & rebind (enrollment.ts)
+   - Named manager accounts with roles + audit log (accounts.ts)
+   - Local offline queue + event log + outbound sync (sync.ts)
+   - Timesheets (shift pairing + weekly totals, timesheet.ts)
+   - Manager punch corrections with audit trail (corrections.ts)
+   - Tamper-evident hash chain over the device event log (chain.ts)
+   - Employee PII and selfies encrypted at rest (vault.ts)
+   - Export builder: date range, row level, columns, CSV/JSON/payroll presets (exporter.ts)
+   - CSV roster import with column mapping, preview and error report (roster.ts)
+   - Employee directory: search, edit, move sites, reactivate, privacy erase (employees.ts)
+   - Work schedules, punch tags (late / early / unscheduled) and daily no-show view (schedule.ts)
+   - On-site roster with roll call, print/export and saved drill records (rollcall.ts)
+   - Site registry per org, manager site picker and all-sites roll-up (sites.ts)
+   - On-device face match of punch selfies against the profile photo + review queue (facematch.ts)
+   - Blink / head-turn liveness challenge on the punch selfie, flag or block by policy (liveness.ts)
+   - Punch selfies as Blobs with capture-time thumbnails, lightbox, storage usage panel (selfies.ts)
+   - Retention policy per data class, legal hold, scheduled purge of synced data + purge log (retention.ts)
    - **Layout tweak**: Kiosk left + Event Log right on lg screens
 ============================================================================ */
 
-const uid = () => Math.random().toString(36).slice(2) + Date.now().toString(36);
-const nowISO = () => new Date().toISOString();
-const sleep = (ms: number) => new Promise((res) => setTimeout(res, ms));
-
-async function sha256(str: string) {
-  const enc = new TextEncoder();
-  const buf = await crypto.subtle.digest("SHA-256", enc.encode(str));
-  return Array.from(new Uint8Array(buf))
-    .map((b) => b.toString(16).padStart(2, "0"))
-    .join("");
-}
-
-const DB_KEY = "bw_kiosk_db_v2";
 const TABS = ["kiosk", "manager", "settings"] as const;
 type Tab = (typeof TABS)[number];
+type Identity = EventRecord["factors"]["identity"];
 
-/* --------------------------------- Types ---------------------------------- */
-interface Employee {
-  id: string;
-  orgId: string;
-  siteId: string;
-  employeeId: string;
-  firstName: string;
-  lastName: string;
-  phone?: string;
-  address?: string;
-  status: "pending" | "active" | "disabled";
-  createdAt: string;
-  profileSelfie?: string;
-}
-
-interface EventRecord {
-  id: string;
-  orgId: string;
-  siteId: string;
-  deviceId: string;
-  employeeId: string; // internal id reference
-  type: "clock-in" | "clock-out";
-  ts: string;
-  factors: { identity: "employeeId" | "fingerprint" | "nfc" | "qr"; biometric: "strong" | "weak" | "simulated" };
-  selfieDataUrl?: string;
-  offlineSeq: number;
-  synced: boolean;
-}
-
-interface DeviceSettings {
-  enrolled: boolean;
-  orgId: string;
-  siteId: string;
-  deviceId: string;
-  online: boolean;
-  selfieRetentionWeeks: number;
-  requireSelfie: boolean;
-  requireStrongBiometric: boolean;
-  adminCodeHash?: string;
-}
+/* ---------------------------- Session timeout ----------------------------- */
+const ACTIVITY_EVENTS = ["pointerdown", "keydown", "wheel", "touchstart"] as const;
 
-interface DB {
-  employees: Employee[];
-  events: EventRecord[];
-  device: DeviceSettings;
-  pendingSeq: number;
-}
+function useIdleTimeout(active: boolean, minutes: number, onIdle: () => void) {
+  const onIdleRef = useRef(onIdle);
+  onIdleRef.current = onIdle;
 
-/* --------------------------------- DB ------------------------------------- */
-function loadDB(): DB {
-  const raw = localStorage.getItem(DB_KEY);
-  if (!raw) {
-    const init: DB = {
-      employees: [],
-      events: [],
-      device: {
-        enrolled: true,
-        orgId: "o",
-        siteId: "s",
-        deviceId: "d",
-        online: true,
-        selfieRetentionWeeks: 4,
-        requireSelfie: true,
-        requireStrongBiometric: true,
-        adminCodeHash: undefined,
-      },
-      pendingSeq: 1,
+  useEffect(() => {
+    if (!active) return;
+    let timer = 0;
+    const reset = () => {
+      clearTimeout(timer);
+      timer = window.setTimeout(() => onIdleRef.current(), minutes * 60_000);
     };
-    sha256("246810").then((h) => {
-      init.device.adminCodeHash = h;
-      localStorage.setItem(DB_KEY, JSON.stringify(init));
-    });
-    return init;
-  }
-  try {
-    return JSON.parse(raw);
-  } catch {
-    localStorage.removeItem(DB_KEY);
-    return loadDB();
-  }
-}
-
-function saveDB(db: DB) {
-  localStorage.setItem(DB_KEY, JSON.stringify(db));
-}
-
-function purgeOldSelfies(db: DB) {
-  const weeks = db.device.selfieRetentionWeeks;
-  const cutoff = Date.now() - weeks * 7 * 24 * 60 * 60 * 1000;
-  let changed = false;
-  db.events = db.events.map((e) => {
-    if (e.selfieDataUrl && new Date(e.ts).getTime() < cutoff) {
-      changed = true;
-      return { ...e, selfieDataUrl: undefined };
-    }
-    return e;
-  });
-  if (changed) saveDB(db);
+    ACTIVITY_EVENTS.forEach((ev) => window.addEventListener(ev, reset, { capture: true, passive: true }));
+    reset();
+    return () => {
+      clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach((ev) => window.removeEventListener(ev, reset, { capture: true }));
+    };
+  }, [active, minutes]);
 }
 
 /* ------------------------------ Camera hook ------------------------------- */
 function useCamera() {
   const videoRef = useRef<HTMLVideoElement | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
   const [active, setActive] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   const start = async () => {
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: "user" }, audio: false });
-      if (videoRef.current) {
-        (videoRef.current as HTMLVideoElement).srcObject = stream;
-        await (videoRef.current as HTMLVideoElement).play();
-      }
+      streamRef.current = await navigator.mediaDevices.getUserMedia({ video: { facingMode: "user" }, audio: false });
       setActive(true);
       setError(null);
     } catch (e: any) {
@@ -147,14 +231,25 @@ function useCamera() {
   };
 
   const stop = () => {
-    const v = videoRef.current;
-    if (v && (v as any).srcObject) {
-      ((v as any).srcObject as MediaStream).getTracks().forEach((t: MediaStreamTrack) => t.stop());
-      (v as any).srcObject = null;
-    }
+    streamRef.current?.getTracks().forEach((t) => t.stop());
+    streamRef.current = null;
+    if (videoRef.current) videoRef.current.srcObject = null;
     setActive(false);
   };
 
+  // the <video> is usually only rendered once active, so attach the stream afterwards
+  useEffect(() => {
+    const v = videoRef.current;
+    if (!active || !v || !streamRef.current) return;
+    v.srcObject = streamRef.current;
+    v.muted = true;
+    v.playsInline = true;
+    v.play().catch(() => undefined);
+  }, [active]);
+
+  // release the camera when the owning view unmounts
+  useEffect(() => () => streamRef.current?.getTracks().forEach((t) => t.stop()), []);
+
   const capture = (w = 320, h = 320) => {
     const v = videoRef.current;
     if (!v) return null;
@@ -178,10 +273,82 @@ function useCamera() {
     return canvas.toDataURL("image/jpeg", 0.8);
   };
 
-  return { videoRef, active, error, start, stop, capture };
+  /** Current frame as pixels, downscaled so the longest side is at most `maxSize`. */
+  const frame = (maxSize = 480) => {
+    const v = videoRef.current;
+    if (!v || !v.videoWidth) return null;
+    const scale = Math.min(1, maxSize / Math.max(v.videoWidth, v.videoHeight));
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(v.videoWidth * scale);
+    canvas.height = Math.round(v.videoHeight * scale);
+    const ctx = canvas.getContext("2d", { willReadFrequently: true });
+    if (!ctx) return null;
+    ctx.drawImage(v, 0, 0, canvas.width, canvas.height);
+    return ctx.getImageData(0, 0, canvas.width, canvas.height);
+  };
+
+  return { videoRef, active, error, start, stop, capture, frame };
+}
+
+/* ------------------------- Biometric presence ----------------------------- */
+type Presence = { biometric: EventRecord["factors"]["biometric"]; signCount?: number };
+
+function PresenceCheck({
+  employee,
+  requireStrong,
+  onConfirm,
+}: {
+  employee: Employee;
+  requireStrong: boolean;
+  onConfirm: (p: Presence) => void;
+}) {
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const cred = employee.webauthn;
+  // the policy applies once a credential is enrolled, so employees without one aren't locked out
+  const strict = requireStrong && !!cred;
+
+  const verify = async () => {
+    if (!cred) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const signCount = await verifyCredential(cred);
+      onConfirm({ biometric: cred.software ? "simulated" : "strong", signCount });
+    } catch (e: any) {
+      setError(e?.message || "Verification failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {cred ? (
+        <button
+          onClick={verify}
+          disabled={busy}
+          className="w-full rounded-2xl border border-white bg-white text-black py-5 font-semibold disabled:opacity-60"
+        >
+          {busy ? "Waiting for authenticator…" : "Verify fingerprint / face"}
+        </button>
+      ) : (
+        <div className="text-sm text-white/70">
+          No biometric is enrolled for you.{requireStrong && " Ask a manager to enroll one."}
+        </div>
+      )}
+      {error && <div className="text-xs text-red-400">{error}</div>}
+      {!strict && (
+        <div>
+          <div className="text-xs text-white/50 mb-1">Fallback (recorded as weak)</div>
+          <BiometricHoldButton onConfirm={() => onConfirm({ biometric: "weak" })} />
+        </div>
+      )}
+    </div>
+  );
 }
 
-/* --------------------- Biometric presence (simulated) --------------------- */
+/** Presence-only fallback: a 1.2 s hold, no identity proof. */
 function BiometricHoldButton({ onConfirm }: { onConfirm: () => void }) {
   const [holding, setHolding] = useState(false);
   const [progress, setProgress] = useState(0);
@@ -227,32 +394,78 @@ function BiometricHoldButton({ onConfirm }: { onConfirm: () => void }) {
 
 /* --------------------------------- App ------------------------------------ */
 export default function App() {
-  const [db, setDb] = useState<DB>(() => loadDB());
+  const [db, setDb] = useState<DB | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
   const [tab, setTab] = useState<Tab>("kiosk");
-  const [adminAuthed, setAdminAuthed] = useState(false);
+  const [sessionId, setSessionId] = useState<string | null>(null);
 
-  useEffect(() => {
-    purgeOldSelfies(db);
-  }, []);
-  useEffect(() => {
-    purgeOldSelfies(db);
-  }, [db.device.selfieRetentionWeeks]);
+  // the latest state, ahead of React's re-render, for saves made after an await
+  const dbRef = useRef<DB | null>(null);
 
-  // very light "sync": mark unsynced as synced if we're online
   useEffect(() => {
-    if (!db.device.online) return;
-    const next = { ...db };
-    let changed = false;
-    next.events = next.events.map((e) => (!e.synced ? ((changed = true), { ...e, synced: true }) : e));
-    if (changed) save(next);
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [db.device.online]);
+    loadDB().then(
+      (loaded) => {
+        dbRef.current = loaded;
+        setDb(loaded);
+      },
+      (e) => setLoadError(e?.message || "Unable to open local storage")
+    );
+  }, []);
 
-  const save = (next: DB) => {
+  const save: SaveDB = (change) => {
+    const cur = dbRef.current;
+    if (!cur) return Promise.resolve();
+    const next = typeof change === "function" ? change(cur) : change;
+    dbRef.current = next;
     setDb(next);
-    saveDB(next);
+    const written = saveDB(next);
+    written.catch((e) => console.error("Failed to persist kiosk data", e));
+    return written;
+  };
+
+  // the tail of the append queue, see AppendEvent
+  const appending = useRef<Promise<void>>(Promise.resolve());
+  const appendEvent: AppendEvent = (ev, also) => {
+    const run = appending.current.then(async () => {
+      const latest = dbRef.current;
+      if (!latest) return;
+      const seq = latest.pendingSeq;
+      const chained = await chainEvent(latest.events, { ...ev, offlineSeq: seq }, latest.device.chainAnchor);
+      save((cur) => {
+        const next = also ? also(cur) : cur;
+        return { ...next, events: [...next.events, chained], pendingSeq: Math.max(next.pendingSeq, seq + 1) };
+      });
+    });
+    appending.current = run.catch(() => undefined);
+    return run;
   };
 
+  useScheduledPurge(db, save);
+
+  const sync = useSyncEngine(db, save);
+  const actor = db?.managers.find((m) => m.id === sessionId && !m.disabled) || null;
+
+  // encrypted fields are only readable during a manager session
+  useEffect(() => {
+    if (!actor) lockVault();
+  }, [actor]);
+
+  usePendingScores(db, save, !!actor);
+
+  // an unattended manager session hands the screen back to employees
+  useIdleTimeout(!!actor, SESSION_IDLE_MINUTES, () => {
+    setSessionId(null);
+    setTab("kiosk");
+  });
+
+  if (!db) {
+    return (
+      <div className="min-h-screen bg-black text-white grid place-content-center text-sm text-white/60">
+        {loadError ? <span className="text-red-300">{loadError}</span> : "Loading…"}
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-black text-white">
       <header className="flex items-center justify-between px-6 py-4 border-b border-white/10">
@@ -286,11 +499,22 @@ export default function App() {
 
       {/* Wider only for Kiosk to allow 2-up layout */}
       <main className={`p-6 mx-auto ${tab === "kiosk" ? "max-w-6xl" : "max-w-xl"}`}>
-        {tab === "kiosk" && <KioskView db={db} save={save} />}
+        {tab === "kiosk" && <KioskView db={db} save={save} appendEvent={appendEvent} sync={sync} />}
         {tab === "manager" && (
-          <ManagerView db={db} save={save} adminAuthed={adminAuthed} setAdminAuthed={setAdminAuthed} />
+          <ManagerView db={db} save={save} appendEvent={appendEvent} actor={actor} setSessionId={setSessionId} />
         )}
-        {tab === "settings" && <SettingsView db={db} save={save} />}
+        {tab === "settings" &&
+          (actor && can(actor, "settings") ? (
+            <SettingsView db={db} save={save} sync={sync} actor={actor} />
+          ) : actor ? (
+            <Section title="Settings">
+              <div className="text-sm text-white/60">
+                Signed in as {actor.name} ({ROLE_LABELS[actor.role]}). Only admins can change device settings.
+              </div>
+            </Section>
+          ) : (
+            <ManagerLogin db={db} save={save} onSignIn={setSessionId} note="Sign in as an admin to change device settings." />
+          ))}
       </main>
     </div>
   );
@@ -314,12 +538,108 @@ function Section({
   );
 }
 
+/* ------------------------------ Chain status ------------------------------ */
+const chainBreaksById = (r: ChainReport | null) => new Map((r?.breaks || []).map((b) => [b.eventId, b.problem]));
+
+function ChainStatus({ report }: { report: ChainReport | null }) {
+  if (!report) return <span className="text-sm text-white/60">Verifying chain…</span>;
+  return (
+    <span className={`text-sm ${report.breaks.length ? "text-red-300" : "text-white/70"}`}>
+      {report.breaks.length ? "⛓ " : "✓ "}
+      {describeChain(report)}
+    </span>
+  );
+}
+
+/* ---------------------------- Encrypted fields ---------------------------- */
+function SecretText({ value }: { value?: string }) {
+  const plain = useDecrypted(value);
+  if (!value) return <>—</>;
+  return <span title={plain === null ? "Encrypted. Sign in as a manager to view." : undefined}>{plain ?? "🔒"}</span>;
+}
+
+function SecretImage({ value, className }: { value?: string; className: string }) {
+  const src = useDecrypted(value);
+  if (!value) return null;
+  if (!src) return <div className={`${className} grid place-content-center text-white/40`}>🔒</div>;
+  return <img src={src} alt="selfie" className={className} />;
+}
+
+/**
+ * Punch selfie thumbnail; opens the full image, read from its store on demand, in a lightbox.
+ * `locked` (the kiosk screen) never decrypts, even while a manager session has the vault open.
+ */
+function SelfieThumb({ id, selfie, className, locked }: { id: string; selfie?: SelfieRef; className: string; locked?: boolean }) {
+  const [open, setOpen] = useState(false);
+  const thumb = useDecrypted(locked && isEncrypted(selfie?.thumb) ? undefined : selfie?.thumb);
+  if (!selfie) return null;
+  const sealed = locked && selfie.encrypted;
+  return (
+    <>
+      <button
+        onClick={() => setOpen(true)}
+        disabled={sealed}
+        title={sealed ? "Encrypted selfie" : "View selfie"}
+        className={`${className} shrink-0 overflow-hidden`}
+      >
+        {thumb ? (
+          <img src={thumb} alt="selfie" className="w-full h-full object-cover" />
+        ) : (
+          <span className="w-full h-full grid place-content-center text-white/40">{selfie.thumb ? "🔒" : "📷"}</span>
+        )}
+      </button>
+      {open && <SelfieLightbox id={id} onClose={() => setOpen(false)} />}
+    </>
+  );
+}
+
+function SelfieLightbox({ id, onClose }: { id: string; onClose: () => void }) {
+  // undefined while loading, null once purged
+  const [value, setValue] = useState<string | null>();
+  const src = useDecrypted(value ?? undefined);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadEventSelfie(id).then(
+      (v) => !cancelled && setValue(v ?? null),
+      () => !cancelled && setValue(null)
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [id]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => e.key === "Escape" && onClose();
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [onClose]);
+
+  return (
+    <div onClick={onClose} className="fixed inset-0 bg-black/70 backdrop-blur-sm z-50 grid place-items-center p-4">
+      {src ? (
+        <img src={src} alt="selfie" className="max-w-[90vw] max-h-[85vh] rounded-2xl border border-white/30" />
+      ) : (
+        <div className="rounded-2xl border border-white/20 bg-black p-6 text-white/70">
+          {value === undefined
+            ? "Loading…"
+            : value === null
+              ? "This selfie is no longer stored."
+              : "🔒 Encrypted. Sign in as a manager to view."}
+        </div>
+      )}
+    </div>
+  );
+}
+
 /* ------------------------------ Kiosk View -------------------------------- */
-function KioskView({ db, save }: { db: DB; save: (x: DB) => void }) {
-  const [mode, setMode] = useState<"home" | "register" | "punch">("home");
+function KioskView({ db, save, appendEvent, sync }: { db: DB; save: SaveDB; appendEvent: AppendEvent; sync: SyncInfo }) {
+  const [mode, setMode] = useState<"home" | "register" | "punch" | "scan">("home");
   const [typedEmployeeId, setTypedEmployeeId] = useState("");
   const [employee, setEmployee] = useState<Employee | null>(null);
-  const [punchType, setPunchType] = useState<"clock-in" | "clock-out">("clock-in");
+  const [punchType, setPunchType] = useState<PunchType>("clock-in");
+  const [typeChosen, setTypeChosen] = useState(false);
+  const [identity, setIdentity] = useState<Identity>("employeeId");
   const cam = useCamera();
 
   const resolveEmployee = (empId: string) => {
@@ -330,18 +650,71 @@ function KioskView({ db, save }: { db: DB; save: (x: DB) => void }) {
         x.employeeId.toLowerCase() === empId.trim().toLowerCase()
     );
     setEmployee(e || null);
+    return e;
   };
 
-  const startPunch = () => {
+  const suggestFor = (e: Employee) => suggestedPunch(punchState(liveEvents(db.events), e.id));
+
+  /** `type` is the punch button pressed; without one the employee's next punch is suggested. */
+  const startPunch = (type?: PunchType) => {
     if (!db.device.enrolled) {
       alert("Device not enrolled. Contact admin.");
       return;
     }
-    resolveEmployee(typedEmployeeId);
+    const e = resolveEmployee(typedEmployeeId);
+    if (type) setPunchType(type);
+    else if (e) setPunchType(suggestFor(e));
+    setTypeChosen(!!type);
+    setIdentity("employeeId");
+    setMode("punch");
+  };
+
+  /** Start a punch for an employee identified by a badge rather than a typed ID. */
+  const startPunchFor = (e: Employee | undefined, via: Identity) => {
+    if (!db.device.enrolled) {
+      alert("Device not enrolled. Contact admin.");
+      return setMode("home");
+    }
+    if (!e) {
+      alert("Badge not recognized at this site. Contact manager.");
+      return setMode("home");
+    }
+    if (e.status !== "active") {
+      alert("Employee is not approved yet.");
+      return setMode("home");
+    }
+    setEmployee(e);
+    setTypedEmployeeId(e.employeeId);
+    setPunchType(suggestFor(e));
+    setTypeChosen(false);
+    setIdentity(via);
     setMode("punch");
   };
 
-  const completePunch = async (selfie?: string) => {
+  const onQrScan = async (payload: string) => {
+    const badge = db.device.badgeKey ? await verifyBadge(db.device.badgeKey, payload) : null;
+    const e =
+      badge && badge.orgId === db.device.orgId
+        ? db.employees.find(
+            (x) =>
+              x.orgId === db.device.orgId &&
+              x.siteId === db.device.siteId &&
+              x.employeeId.toLowerCase() === badge.employeeId.toLowerCase()
+          )
+        : undefined;
+    startPunchFor(e, "qr");
+  };
+
+  useCardReader(mode === "home", (read) => {
+    // the reader may have typed into the Employee ID field before we saw Enter
+    setTypedEmployeeId((prev) => (prev.endsWith(read.raw) ? prev.slice(0, -read.raw.length) : prev));
+    const e = db.employees.find(
+      (x) => x.orgId === db.device.orgId && x.siteId === db.device.siteId && x.badgeId === read.card
+    );
+    startPunchFor(e, read.magstripe ? "badge" : "nfc");
+  });
+
+  const completePunch = async (presence: Presence, selfie?: string, liveness?: Liveness) => {
     if (!db.device.enrolled) return;
     const emp = employee;
     if (!emp) return;
@@ -349,8 +722,17 @@ function KioskView({ db, save }: { db: DB; save: (x: DB) => void }) {
       alert("Employee not approved yet.");
       return;
     }
-    const seq = db.pendingSeq;
-    const ev: EventRecord = {
+    const exception = transitionException(punchState(liveEvents(db.events), emp.id), punchType);
+    if (exception && db.device.invalidPunchPolicy === "block") {
+      alert(`Punch not allowed: ${describeException(exception)}.`);
+      return;
+    }
+    const livenessPolicy = db.device.requireSelfie ? db.device.livenessPolicy || "off" : "off";
+    if (livenessPolicy === "block" && liveness?.result !== "pass") {
+      alert("Punch not allowed: the selfie liveness check was not passed.");
+      return;
+    }
+    const plain: EventRecord = {
       id: uid(),
       orgId: db.device.orgId,
       siteId: db.device.siteId,
@@ -358,13 +740,36 @@ function KioskView({ db, save }: { db: DB; save: (x: DB) => void }) {
       employeeId: emp.id,
       type: punchType,
       ts: nowISO(),
-      factors: { identity: "employeeId", biometric: db.device.requireStrongBiometric ? "simulated" : "weak" },
-      selfieDataUrl: db.device.requireSelfie ? selfie : undefined,
-      offlineSeq: seq,
-      synced: db.device.online ? true : false,
+      factors: { identity, biometric: presence.biometric },
+      offlineSeq: 0, // assigned by appendEvent
+      synced: false,
+      exception,
     };
-    const next: DB = { ...db, events: [...db.events, ev], pendingSeq: seq + 1 };
-    save(next);
+    plain.schedule = schedulePunch(db.schedules, plain, graceOf(db.device));
+    const threshold = db.device.faceMatchThreshold ?? DEFAULT_FACE_MATCH_THRESHOLD;
+    const shot = db.device.requireSelfie ? selfie : undefined;
+    plain.faceMatch = await matchSelfie(emp.faceTemplate, shot, threshold, db.device.keyring);
+    if (livenessPolicy !== "off") plain.liveness = liveness;
+    if (shot) {
+      const stored = await prepareSelfie(db.device.keyring, shot);
+      try {
+        await saveEventSelfie(plain.id, stored.value);
+        plain.selfie = stored.ref;
+      } catch (e: any) {
+        // the punch still counts without its selfie
+        console.warn("Selfie not stored", e);
+      }
+    }
+    await appendEvent(await encryptEvent(db.device.keyring, plain), (cur) =>
+      emp.webauthn && presence.signCount !== undefined
+        ? {
+            ...cur,
+            employees: cur.employees.map((x) =>
+              x.id === emp.id && x.webauthn ? { ...x, webauthn: { ...x.webauthn, signCount: presence.signCount! } } : x
+            ),
+          }
+        : cur
+    );
     setTypedEmployeeId("");
     setEmployee(null);
     setMode("home");
@@ -381,6 +786,8 @@ function KioskView({ db, save }: { db: DB; save: (x: DB) => void }) {
     [db]
   );
   const queuedCount = deviceEvents.filter((e) => !e.synced).length;
+  const chain = useChainReport(db.events, db.device.chainAnchor);
+  const brokenIds = chainBreaksById(chain);
 
   return (
     <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
@@ -396,37 +803,46 @@ function KioskView({ db, save }: { db: DB; save: (x: DB) => void }) {
                 placeholder="e.g., E12345"
                 className="w-full bg-black text-white border border-white/40 rounded-xl px-4 py-3 mt-1"
               />
-              <div className="text-xs text-white/60 mt-2">Your entry will be validated locally, then synced.</div>
+              <div className="text-xs text-white/60 mt-2">
+                Your entry will be validated locally, then synced. Or tap/swipe your badge.
+              </div>
+              <button onClick={() => setMode("scan")} className="mt-3 w-full px-3 py-2 rounded-xl border border-white/40 text-sm">
+                Scan QR badge
+              </button>
             </div>
 
             <div className="rounded-xl border border-white/20 p-4">
               <div className="font-medium">Device status</div>
               <div className="text-sm text-white/60">
-                {db.device.enrolled ? (db.device.online ? "Online" : "Offline") : "Not enrolled"}
+                {db.device.enrolled ? (sync.netOnline && db.device.online ? "Online" : "Offline") : "Not enrolled"}
               </div>
               <div className="text-xs text-white/50 mt-1">Unsynced events: {queuedCount}</div>
+              <div className="text-xs text-white/50">
+                Last sync: {sync.lastSyncAt ? new Date(sync.lastSyncAt).toLocaleTimeString() : "—"}
+                {sync.status === "syncing" && " · Syncing…"}
+                {sync.status === "disabled" && " · No sync endpoint"}
+              </div>
+              {sync.status === "error" && (
+                <div className="text-xs text-red-300 mt-1">
+                  Sync error: {sync.lastError}
+                  {sync.retryAt && <> · retry {new Date(sync.retryAt).toLocaleTimeString()}</>}
+                </div>
+              )}
             </div>
           </div>
 
           <div className="grid grid-cols-2 gap-3">
-            <button
-              onClick={() => {
-                setPunchType("clock-in");
-                startPunch();
-              }}
-              className="rounded-2xl border border-white/40 py-4 font-semibold"
-            >
-              Clock-in
-            </button>
-            <button
-              onClick={() => {
-                setPunchType("clock-out");
-                startPunch();
-              }}
-              className="rounded-2xl border border-white/40 py-4 font-semibold"
-            >
-              Clock-out
-            </button>
+            {(Object.keys(PUNCH_LABELS) as PunchType[]).map((t) => (
+              <button
+                key={t}
+                onClick={() => startPunch(t)}
+                className={`rounded-2xl border border-white/40 font-semibold ${
+                  t.startsWith("clock") ? "py-4" : "py-2 text-sm text-white/80"
+                }`}
+              >
+                {PUNCH_LABELS[t]}
+              </button>
+            ))}
           </div>
 
           <div className="rounded-xl border border-white/20 p-4">
@@ -452,6 +868,16 @@ function KioskView({ db, save }: { db: DB; save: (x: DB) => void }) {
           </div>
         </div>
 
+        {/* Badge scanner modal */}
+        {mode === "scan" && (
+          <div className="fixed inset-0 bg-black/70 backdrop-blur-sm z-50 grid place-items-center p-4">
+            <div className="w-full max-w-lg rounded-2xl border border-white/20 bg-black p-6">
+              <div className="text-lg font-semibold mb-4">Scan your badge</div>
+              <QrScanner onScan={onQrScan} onCancel={() => setMode("home")} />
+            </div>
+          </div>
+        )}
+
         {/* Register modal */}
         {mode === "register" && (
           <div className="fixed inset-0 bg-black/70 backdrop-blur-sm z-50 grid place-items-center p-4">
@@ -459,13 +885,15 @@ function KioskView({ db, save }: { db: DB; save: (x: DB) => void }) {
               <div className="text-lg font-semibold mb-4">Self-register</div>
               <RegisterCard
                 onCancel={() => setMode("home")}
-                onSubmit={(emp) => {
-                  const next: DB = { ...db, employees: [...db.employees, emp] };
-                  save(next);
+                onSubmit={async (emp) => {
+                  const withTemplate = { ...emp, faceTemplate: await profileTemplate(emp.profileSelfie) };
+                  const sealed = await encryptEmployee(db.device.keyring, withTemplate);
+                  save((cur) => ({ ...cur, employees: [...cur.employees, sealed] }));
                   setMode("home");
                   alert("Registered. Waiting for manager approval.");
                 }}
                 cam={cam}
+                allowSoftwareAuthenticator={!!db.device.allowSoftwareAuthenticator}
                 orgId={db.device.orgId}
                 siteId={db.device.siteId}
               />
@@ -481,14 +909,19 @@ function KioskView({ db, save }: { db: DB; save: (x: DB) => void }) {
                 typedEmployeeId={typedEmployeeId}
                 employee={employee}
                 type={punchType}
+                onTypeChange={setPunchType}
                 onCancel={() => {
                   setEmployee(null);
                   setMode("home");
                 }}
-                onResolve={(emp) => setEmployee(emp)}
+                onResolve={(emp) => {
+                  setEmployee(emp);
+                  if (!typeChosen) setPunchType(suggestFor(emp));
+                }}
                 onComplete={completePunch}
                 requireSelfie={db.device.requireSelfie}
                 db={db}
+                save={save}
               />
             </div>
           </div>
@@ -498,7 +931,7 @@ function KioskView({ db, save }: { db: DB; save: (x: DB) => void }) {
       {/* RIGHT: Event Log */}
       <Section title="Kiosk Event Log (this device)" className="mb-0">
         <div className="flex items-center justify-between mb-3 text-sm text-white/70">
-          <div>Showing latest events for this device</div>
+          <ChainStatus report={chain} />
           <div className="flex gap-3">
             <span>Queued: {queuedCount}</span>
             <span>Synced: {deviceEvents.length - queuedCount}</span>
@@ -515,19 +948,21 @@ function KioskView({ db, save }: { db: DB; save: (x: DB) => void }) {
                   <div className="font-semibold truncate">
                     {emp ? `${emp.firstName} ${emp.lastName} (${emp.employeeId})` : "Unknown"} ·{" "}
                     <span className="uppercase">{e.type}</span>
+                    {e.exception && <span className="ml-2 text-xs text-red-300">⚠ flagged</span>}
+                    {e.liveness?.result === "fail" && <span className="ml-2 text-xs text-red-300">⚠ liveness</span>}
+                    {e.schedule && e.schedule !== "on-time" && (
+                      <span className="ml-2 text-xs text-white/60">{SCHEDULE_TAG_LABELS[e.schedule]}</span>
+                    )}
+                    {brokenIds.has(e.id) && (
+                      <span className="ml-2 text-xs text-red-300">⛓ {CHAIN_PROBLEM_LABELS[brokenIds.get(e.id)!]}</span>
+                    )}
                   </div>
                   <div className="text-xs text-white/60">
                     {new Date(e.ts).toLocaleString()} · Seq {e.offlineSeq} · Factors: {e.factors.identity} +{" "}
                     {e.factors.biometric}
                   </div>
                 </div>
-                {e.selfieDataUrl && (
-                  <img
-                    src={e.selfieDataUrl}
-                    alt="selfie"
-                    className="ml-auto w-12 h-12 object-cover rounded-lg border border-white/20"
-                  />
-                )}
+                <SelfieThumb id={e.id} selfie={e.selfie} locked className="ml-auto w-12 h-12 rounded-lg border border-white/20" />
               </div>
             );
           })}
@@ -538,29 +973,153 @@ function KioskView({ db, save }: { db: DB; save: (x: DB) => void }) {
   );
 }
 
+/* ------------------------------- PIN entry -------------------------------- */
+function PinEntry({
+  employee,
+  onChecked,
+  onVerified,
+  onCancel,
+}: {
+  employee: Employee;
+  onChecked: (next: NonNullable<Employee["pin"]>) => void;
+  onVerified: () => void;
+  onCancel: () => void;
+}) {
+  const [pin, setPin] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const cred = employee.pin;
+  const lockedUntil = cred ? pinLockedUntil(cred) : null;
+
+  const submit = async () => {
+    if (!cred || busy) return;
+    setBusy(true);
+    const { ok, next } = await checkPin(cred, pin);
+    setBusy(false);
+    setPin("");
+    onChecked(next);
+    if (ok) return onVerified();
+    setError(
+      next.lockedUntil
+        ? "Too many wrong PINs. Try again later or ask a manager to reset your PIN."
+        : `Wrong PIN. ${PIN_MAX_ATTEMPTS - next.failedAttempts} attempt(s) left.`
+    );
+  };
+
+  if (!cred) {
+    return (
+      <div className="space-y-3">
+        <div className="text-sm text-white/70">A PIN is required on this device. Ask a manager to set yours.</div>
+        <button onClick={onCancel} className="px-4 py-2 rounded-xl border border-white/40">Cancel</button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="text-sm text-white/60">Enter your PIN</div>
+      {lockedUntil ? (
+        <div className="text-sm text-red-300">PIN locked until {lockedUntil.toLocaleTimeString()}.</div>
+      ) : (
+        <input
+          type="password"
+          inputMode="numeric"
+          autoFocus
+          value={pin}
+          onChange={(e) => setPin(e.target.value.replace(/\D/g, ""))}
+          onKeyDown={(e) => e.key === "Enter" && submit()}
+          maxLength={8}
+          className="w-full bg-black text-white border border-white/40 rounded-xl px-4 py-3 tracking-[0.5em]"
+        />
+      )}
+      {error && !lockedUntil && <div className="text-xs text-red-400">{error}</div>}
+      <div className="flex gap-3">
+        <button onClick={onCancel} className="px-4 py-2 rounded-xl border border-white/40">Cancel</button>
+        <button
+          onClick={submit}
+          disabled={!!lockedUntil || pin.length < 4 || busy}
+          className="px-4 py-2 rounded-xl border border-white/40 bg-white text-black disabled:opacity-40"
+        >
+          Continue
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/* ------------------------------ QR scanner -------------------------------- */
+function QrScanner({ onScan, onCancel }: { onScan: (payload: string) => void; onCancel: () => void }) {
+  const cam = useCamera();
+
+  useEffect(() => {
+    cam.start();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // decode a few frames per second until a QR code shows up
+  useEffect(() => {
+    if (!cam.active) return;
+    let timer = 0;
+    const tick = () => {
+      const img = cam.frame();
+      const hit = img ? jsQR(img.data, img.width, img.height, { inversionAttempts: "dontInvert" }) : null;
+      if (hit?.data) {
+        navigator.vibrate?.(50);
+        onScan(hit.data);
+        return;
+      }
+      timer = window.setTimeout(tick, 200);
+    };
+    timer = window.setTimeout(tick, 200);
+    return () => clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [cam.active]);
+
+  return (
+    <div className="space-y-3">
+      {cam.active ? (
+        <video ref={cam.videoRef} className="w-full aspect-video rounded-2xl border border-white/30 object-cover" />
+      ) : (
+        <div className="w-full aspect-video rounded-2xl border border-white/30 grid place-content-center text-white/60">
+          Starting camera…
+        </div>
+      )}
+      <div className="text-xs text-white/60">Hold the QR code on your badge up to the camera.</div>
+      {cam.error && <div className="text-xs text-red-400">{cam.error}</div>}
+      <button onClick={onCancel} className="px-4 py-2 rounded-xl border border-white/40">Cancel</button>
+    </div>
+  );
+}
+
 /* ---------------------------- Registration -------------------------------- */
 function RegisterCard({
   onCancel,
   onSubmit,
   cam,
+  allowSoftwareAuthenticator,
   orgId,
   siteId,
 }: {
   onCancel: () => void;
-  onSubmit: (e: Employee) => void;
+  onSubmit: (e: Employee) => Promise<void>;
   cam: ReturnType<typeof useCamera>;
+  allowSoftwareAuthenticator: boolean;
   orgId: string;
   siteId: string;
 }) {
+  const [id] = useState(uid);
+  const [webauthn, setWebauthn] = useState<WebAuthnCredential | undefined>();
   const [employeeId, setEmployeeId] = useState("");
   const [firstName, setFirstName] = useState("");
   const [lastName, setLastName] = useState("");
   const [phone, setPhone] = useState("");
   const [address, setAddress] = useState("");
+  const [pin, setPin] = useState("");
+  const [pinConfirm, setPinConfirm] = useState("");
 
   const validPhone = (p: string) => p === "" || /^\+?[0-9]{7,15}$/.test(p);
 
-  const submit = () => {
+  const submit = async () => {
     if (!employeeId || !firstName || !lastName) {
       alert("Employee ID, First and Last name are required");
       return;
@@ -569,8 +1128,16 @@ function RegisterCard({
       alert("Phone should be digits with optional + and 7-15 total");
       return;
     }
+    if (pin && !validPin(pin)) {
+      alert("PIN should be 4-8 digits");
+      return;
+    }
+    if (pin !== pinConfirm) {
+      alert("PINs do not match");
+      return;
+    }
     const emp: Employee = {
-      id: uid(),
+      id,
       orgId,
       siteId,
       employeeId: employeeId.trim(),
@@ -581,8 +1148,22 @@ function RegisterCard({
       status: "pending",
       createdAt: nowISO(),
       profileSelfie: cam.active ? cam.capture() || undefined : undefined,
+      webauthn,
+      pin: pin ? await hashPin(pin) : undefined,
     };
-    onSubmit(emp);
+    await onSubmit(emp);
+  };
+
+  const setupBiometric = async () => {
+    if (!employeeId || !firstName || !lastName) {
+      alert("Fill in Employee ID and name first");
+      return;
+    }
+    try {
+      setWebauthn(await enrollCredential({ id, employeeId, firstName, lastName }, { software: allowSoftwareAuthenticator }));
+    } catch (e: any) {
+      alert(`Biometric setup failed: ${e?.message || e}`);
+    }
   };
 
   return (
@@ -608,6 +1189,19 @@ function RegisterCard({
           Address (optional)
           <textarea value={address} onChange={(e) => setAddress(e.target.value)} className="mt-1 w-full bg-black text-white border border-white/30 rounded-xl px-3 py-2" rows={3} />
         </label>
+        <div className="grid grid-cols-2 gap-3">
+          <label className="block">
+            PIN (optional)
+            <input type="password" inputMode="numeric" value={pin} onChange={(e) => setPin(e.target.value)} className="mt-1 w-full bg-black text-white border border-white/30 rounded-xl px-3 py-2" placeholder="4-8 digits" />
+          </label>
+          <label className="block">
+            Confirm PIN
+            <input type="password" inputMode="numeric" value={pinConfirm} onChange={(e) => setPinConfirm(e.target.value)} className="mt-1 w-full bg-black text-white border border-white/30 rounded-xl px-3 py-2" />
+          </label>
+        </div>
+        <button onClick={setupBiometric} className="w-full px-4 py-2 rounded-xl border border-white/40 text-sm">
+          {webauthn ? "✓ Biometric set up (redo)" : "Set up fingerprint / face (optional)"}
+        </button>
         <div className="flex gap-3 pt-2">
           <button onClick={onCancel} className="px-4 py-2 rounded-xl border border-white/40">Cancel</button>
           <button onClick={submit} className="px-4 py-2 rounded-xl border border-white/40 bg-white text-black">Submit</button>
@@ -643,23 +1237,40 @@ function PunchFlow({
   typedEmployeeId,
   employee,
   type,
+  onTypeChange,
   onCancel,
   onResolve,
   onComplete,
   requireSelfie,
   db,
+  save,
 }: {
   typedEmployeeId: string;
   employee: Employee | null;
-  type: "clock-in" | "clock-out";
+  type: PunchType;
+  onTypeChange: (t: PunchType) => void;
   onCancel: () => void;
   onResolve: (e: Employee) => void;
-  onComplete: (selfie?: string) => void;
+  onComplete: (presence: Presence, selfie?: string, liveness?: Liveness) => void;
   requireSelfie: boolean;
   db: DB;
+  save: SaveDB;
 }) {
   const cam = useCamera();
-  const [step, setStep] = useState<"identify" | "presence" | "selfie">(employee ? "presence" : "identify");
+  const pinPolicy = db.device.pinPolicy || "if-set";
+  const needsPin = (e: Employee) => pinPolicy === "required" || (pinPolicy === "if-set" && !!e.pin);
+  const [step, setStep] = useState<"identify" | "pin" | "confirm" | "presence" | "selfie">(
+    employee?.status === "active" ? (needsPin(employee) ? "pin" : "confirm") : "identify"
+  );
+  const [presence, setPresence] = useState<Presence | null>(null);
+  const livenessPolicy = db.device.livenessPolicy || "off";
+  const [challenge, setChallenge] = useState(pickChallenge);
+  const [checking, setChecking] = useState<"idle" | "running" | "failed">("idle");
+  const unmounted = useRef(false);
+  useEffect(() => () => void (unmounted.current = true), []);
+  const state = employee ? punchState(liveEvents(db.events), employee.id) : null;
+  const exception = state ? transitionException(state, type) : undefined;
+  const blocked = !!exception && db.device.invalidPunchPolicy === "block";
 
   const tryResolve = () => {
     const e = db.employees.find(
@@ -677,20 +1288,51 @@ function PunchFlow({
       return;
     }
     onResolve(e);
-    setStep("presence");
+    setStep(needsPin(e) ? "pin" : "confirm");
   };
 
-  const confirmPresence = async () => {
+  const confirmPresence = async (p: Presence) => {
+    setPresence(p);
     setStep(requireSelfie ? "selfie" : (undefined as any));
     if (!requireSelfie) {
       await sleep(150);
-      onComplete();
+      onComplete(p);
     }
   };
 
   const takeSelfieAndComplete = () => {
+    if (!presence) return;
     const shot = cam.active ? cam.capture() || undefined : undefined;
-    onComplete(shot);
+    onComplete(presence, shot);
+  };
+
+  // the selfie is the frame before the challenge (facing the camera); then sample frames until it is answered
+  const runLivenessCheck = async () => {
+    if (!presence) return;
+    const shot = cam.active ? cam.capture() || undefined : undefined;
+    let passed = false;
+    if (shot) {
+      setChecking("running");
+      const frames: Float32Array[] = [];
+      const until = Date.now() + LIVENESS_TIMEOUT_MS;
+      while (!passed && Date.now() < until) {
+        await sleep(LIVENESS_INTERVAL_MS);
+        if (unmounted.current) return;
+        const img = cam.frame();
+        if (img) frames.push(grayFrame(img));
+        passed = livenessPassed(challenge, frames);
+      }
+    }
+    if (passed || livenessPolicy === "flag") {
+      onComplete(presence, shot, { challenge, result: passed ? "pass" : "fail" });
+      return;
+    }
+    setChecking("failed");
+  };
+
+  const retryLivenessCheck = () => {
+    setChallenge(pickChallenge());
+    setChecking("idle");
   };
 
   return (
@@ -713,20 +1355,73 @@ function PunchFlow({
         </div>
       )}
 
-      {step === "presence" && (
+      {step === "pin" && employee && (
         <div className="rounded-2xl border border-white/20 p-4">
-          <div className="text-sm text-white/60 mb-2">Biometric presence (simulated)</div>
-          <BiometricHoldButton onConfirm={confirmPresence} />
-          <div className="text-xs text-white/50 mt-2">
-            In production, wire to device biometrics (Android/iOS) or external fingerprint (Android).
+          <PinEntry
+            // read the stored record so attempt counts survive re-renders
+            employee={db.employees.find((x) => x.id === employee.id) || employee}
+            onChecked={(pin) =>
+              save((cur) => ({ ...cur, employees: cur.employees.map((x) => (x.id === employee.id ? { ...x, pin } : x)) }))
+            }
+            onVerified={() => setStep("confirm")}
+            onCancel={onCancel}
+          />
+        </div>
+      )}
+
+      {step === "confirm" && state && (
+        <div className="rounded-2xl border border-white/20 p-4 space-y-3">
+          <div className="text-sm text-white/60">
+            {describeState(state)} — {PUNCH_LABELS[suggestedPunch(state)].toLowerCase()}?
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            {(Object.keys(PUNCH_LABELS) as PunchType[]).map((t) => (
+              <button
+                key={t}
+                onClick={() => onTypeChange(t)}
+                className={`rounded-2xl border py-3 font-semibold ${
+                  t === type ? "bg-white text-black border-white" : "border-white/40"
+                }`}
+              >
+                {PUNCH_LABELS[t]}
+              </button>
+            ))}
           </div>
-          <div className="pt-2">
+          {exception && (
+            <div className="text-xs text-red-300">
+              {blocked
+                ? `Not allowed: ${describeException(exception)}.`
+                : `This does not match your current status (${describeException(exception)}) and will be flagged for manager review.`}
+            </div>
+          )}
+          <div className="flex gap-3">
             <button onClick={onCancel} className="px-4 py-2 rounded-xl border border-white/40">Cancel</button>
+            <button
+              onClick={() => setStep("presence")}
+              disabled={blocked}
+              className="px-4 py-2 rounded-xl border border-white/40 bg-white text-black disabled:opacity-40"
+            >
+              {exception ? "Record anyway" : "Continue"}
+            </button>
           </div>
         </div>
       )}
 
-      {step === "selfie" && (
+      {step === "presence" && employee && (
+        <div className="rounded-2xl border border-white/20 p-4">
+          <div className="text-sm text-white/60 mb-2">Biometric verification</div>
+          <PresenceCheck
+            employee={employee}
+            requireStrong={db.device.requireStrongBiometric}
+            onConfirm={confirmPresence}
+          />
+          <div className="pt-3">
+            <button onClick={onCancel} className="px-4 py-2 rounded-xl border border-white/40">Cancel</button>
+          </div>
+        </div>
+      )}
+
+      {step === "selfie" && (
         <div className="rounded-2xl border border-white/20 p-4">
           <div className="text-sm text-white/60 mb-2">Audit selfie</div>
           {!cam.active ? (
@@ -739,11 +1434,32 @@ function PunchFlow({
           ) : (
             <video ref={cam.videoRef} className="w-full aspect-video rounded-2xl border border-white/30 object-cover" />
           )}
+          {livenessPolicy !== "off" && cam.active && (
+            <div className={`mt-3 text-center font-semibold ${checking === "failed" ? "text-red-300" : ""}`}>
+              {checking === "idle" && `Look at the camera, press Start, then: ${LIVENESS_PROMPTS[challenge].toLowerCase()}`}
+              {checking === "running" && `${LIVENESS_PROMPTS[challenge]}…`}
+              {checking === "failed" && "We couldn't confirm the check. Try again with your face filling the frame."}
+            </div>
+          )}
           <div className="flex gap-3 pt-3">
             <button onClick={onCancel} className="px-4 py-2 rounded-xl border border-white/40">Cancel</button>
-            <button onClick={takeSelfieAndComplete} className="px-4 py-2 rounded-xl border border-white/40 bg-white text-black">
-              Capture & Complete
-            </button>
+            {livenessPolicy === "off" ? (
+              <button onClick={takeSelfieAndComplete} className="px-4 py-2 rounded-xl border border-white/40 bg-white text-black">
+                Capture & Complete
+              </button>
+            ) : checking === "failed" ? (
+              <button onClick={retryLivenessCheck} className="px-4 py-2 rounded-xl border border-white/40 bg-white text-black">
+                Try again
+              </button>
+            ) : (
+              <button
+                onClick={runLivenessCheck}
+                disabled={checking === "running" || (livenessPolicy === "block" && !cam.active)}
+                className="px-4 py-2 rounded-xl border border-white/40 bg-white text-black disabled:opacity-40"
+              >
+                {checking === "running" ? "Checking…" : "Start & Complete"}
+              </button>
+            )}
           </div>
           {cam.error && <div className="text-xs text-red-400 mt-1">{cam.error}</div>}
         </div>
@@ -756,122 +1472,209 @@ function PunchFlow({
 function ManagerView({
   db,
   save,
-  adminAuthed,
-  setAdminAuthed,
+  appendEvent,
+  actor,
+  setSessionId,
 }: {
   db: DB;
-  save: (x: DB) => void;
-  adminAuthed: boolean;
-  setAdminAuthed: (b: boolean) => void;
+  save: SaveDB;
+  appendEvent: AppendEvent;
+  actor: ManagerAccount | null;
+  setSessionId: (id: string | null) => void;
 }) {
-  const [code, setCode] = useState("");
-  const [filterSite, setFilterSite] = useState(db.device.siteId);
+  const [filterSite, setFilterSite] = useState(db.device.siteId || ALL_SITES);
+  const [correction, setCorrection] = useState<Correction | null>(null);
+  const [rollCallOpen, setRollCallOpen] = useState(false);
+  const chain = useChainReport(db.events, db.device.chainAnchor);
 
-  const login = async () => {
-    if (!db.device.adminCodeHash) {
-      alert("Admin code not set. Ask admin.");
-      return;
-    }
-    const ok = (await sha256(code)) === db.device.adminCodeHash;
-    if (ok) {
-      setAdminAuthed(true);
-      setCode("");
-    } else alert("Invalid admin code");
-  };
+  if (!actor) return <ManagerLogin db={db} save={save} onSignIn={setSessionId} />;
 
-  if (!adminAuthed) {
-    return (
-      <div className="max-w-xl mx-auto">
-        <Section title="Manager/Admin access" className="mb-0">
-          <input
-            type="password"
-            placeholder="Enter Admin Code"
-            value={code}
-            onChange={(e) => setCode(e.target.value)}
-            className="w-full bg-black text-white border border-white/30 rounded-xl px-3 py-2"
-          />
-          <div className="pt-3">
-            <button onClick={login} className="px-4 py-2 rounded-xl border border-white/40 bg-white text-black">
-              Enter
-            </button>
-          </div>
-          <div className="text-xs text-white/50 mt-2">Demo default: 246810 (can be changed by Admin in Settings).</div>
-        </Section>
-      </div>
-    );
-  }
+  const setStatus = (emp: Employee, status: "active" | "disabled") => {
+    const next = { ...db, employees: db.employees.map((e) => (e.id === emp.id ? { ...e, status } : e)) };
+    const action = status === "active" ? "employee-approve" : "employee-disable";
+    save(audit(next, actor.username, action, `${emp.firstName} ${emp.lastName} (${emp.employeeId})`));
+  };
 
-  const approve = (id: string) => {
-    const next = { ...db, employees: db.employees.map((e) => (e.id === id ? { ...e, status: "active" } : e)) };
+  const markReviewed = (id: string) => {
+    const next = {
+      ...db,
+      events: db.events.map((e) =>
+        e.id === id && e.exception ? { ...e, exception: { ...e.exception, reviewedAt: nowISO() } } : e
+      ),
+    };
     save(next);
   };
-  const disable = (id: string) => {
-    const next = { ...db, employees: db.employees.map((e) => (e.id === id ? { ...e, status: "disabled" } : e)) };
-    save(next);
+
+  const applyCorrection = async (values: CorrectionValues, why: Omit<AmendMeta, "by">) => {
+    if (!correction) return;
+    const meta = { ...why, by: actor.username };
+    if (correction.mode === "add") {
+      // offlineSeq is assigned by appendEvent
+      const base = { orgId: db.device.orgId, siteId: filterSite, deviceId: db.device.deviceId, offlineSeq: 0 };
+      await appendEvent(manualEvent({ ...base, employeeId: values.employeeId, type: values.type, ts: values.ts }, meta));
+    } else {
+      const target = correction.event;
+      const updated =
+        correction.mode === "void" ? voidEvent(target, meta) : amendEvent(target, { ts: values.ts, type: values.type }, meta);
+      if (updated === target) return alert("Nothing changed.");
+      const sealed = await sealAmendments(updated);
+      save((cur) => ({ ...cur, events: cur.events.map((e) => (e.id === target.id ? sealed : e)) }));
+    }
+    setCorrection(null);
   };
 
-  const siteEvents = [...db.events].filter((e) => e.siteId === filterSite).sort((a, b) => b.ts.localeCompare(a.ts));
+  const orgEvents = db.events.filter((e) => e.orgId === db.device.orgId);
+  const siteEvents = orgEvents.filter((e) => inSite(e.siteId, filterSite)).sort((a, b) => b.ts.localeCompare(a.ts));
+  const liveSiteEvents = liveEvents(siteEvents);
+  const pending = db.employees.filter(
+    (e) => e.status === "pending" && e.orgId === db.device.orgId && inSite(e.siteId, filterSite)
+  );
+  const sites = siteOptions(db);
+  const zoneOf = new Map(sites.map((x) => [x.id, x.timeZone]));
+  const allSites = filterSite === ALL_SITES;
+  const scopeLabel = siteLabel(db, filterSite);
+  const brokenIds = chainBreaksById(chain);
+  const exceptions = liveSiteEvents.filter((e) => e.exception && !e.exception.reviewedAt);
 
   return (
     <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-      <Section title="Approvals" className="mb-0">
+      <div className="lg:col-span-2 flex flex-wrap items-center gap-3">
+        <SitePicker sites={sites} value={filterSite} onChange={setFilterSite} />
+        <button
+          onClick={() => setRollCallOpen(!rollCallOpen)}
+          className={`px-4 py-2 rounded-xl border border-white/40 ${rollCallOpen ? "" : "bg-white text-black"}`}
+        >
+          {rollCallOpen ? "Close roll call" : "🚨 Who's on site / roll call"}
+        </button>
+      </div>
+      {rollCallOpen && (
+        <Section title={`On Site Now · ${siteLabel(db, db.device.siteId)}`} className="mb-0 lg:col-span-2">
+          <RollCallPanel db={db} save={save} actor={actor} />
+        </Section>
+      )}
+      {db.device.keyring && !isUnlocked() && (
+        <div className="lg:col-span-2 rounded-2xl border border-red-300/40 p-3 text-sm text-red-300">
+          🔒 Employee personal data is encrypted and your access code does not unlock it. Ask an admin to reset your code.
+        </div>
+      )}
+      {allSites && (
+        <Section title="All Sites" className="mb-0 lg:col-span-2">
+          <SiteRollup db={db} onPick={setFilterSite} />
+        </Section>
+      )}
+      <Section title={`Approvals · ${scopeLabel}`} className="mb-0">
         <div className="space-y-3 max-h-[520px] overflow-auto pr-1">
-          {db.employees
-            .filter((e) => e.status !== "active")
-            .map((e) => (
+          {pending.map((e) => (
               <div key={e.id} className="flex items-center gap-3 border border-white/20 rounded-2xl p-3">
                 <div className="min-w-0">
                   <div className="font-semibold truncate">
                     {e.firstName} {e.lastName} ({e.employeeId})
                   </div>
                   <div className="text-xs text-white/60">
-                    Phone: {e.phone || "—"} · Submitted: {new Date(e.createdAt).toLocaleString()}
+                    {allSites && `${siteLabel(db, e.siteId)} · `}Phone: <SecretText value={e.phone} /> · Submitted:{" "}
+                    {formatInSite(e.createdAt, zoneOf.get(e.siteId))}
                   </div>
                 </div>
-                {e.profileSelfie && (
-                  <img
-                    src={e.profileSelfie}
-                    className="ml-auto w-10 h-10 rounded-lg object-cover border border-white/20"
-                  />
-                )}
+                <SecretImage value={e.profileSelfie} className="ml-auto w-10 h-10 rounded-lg object-cover border border-white/20" />
                 <div className="ml-auto flex gap-2">
-                  <button onClick={() => approve(e.id)} className="px-3 py-2 rounded-xl border border-white/40 bg-white text-black">
+                  <button onClick={() => setStatus(e, "active")} className="px-3 py-2 rounded-xl border border-white/40 bg-white text-black">
                     Approve
                   </button>
-                  <button onClick={() => disable(e.id)} className="px-3 py-2 rounded-xl border border-white/40">
+                  <button onClick={() => setStatus(e, "disabled")} className="px-3 py-2 rounded-xl border border-white/40">
                     Disable
                   </button>
                 </div>
               </div>
             ))}
-          {db.employees.filter((e) => e.status !== "active").length === 0 && (
-            <div className="text-white/60">No pending approvals.</div>
-          )}
+          {pending.length === 0 && <div className="text-white/60">No pending approvals.</div>}
         </div>
       </Section>
 
-      <Section title="Events & Selfies" className="mb-0">
+      <Section title={`Events & Selfies · ${scopeLabel}`} className="mb-0">
         <div className="flex items-center gap-2 mb-3">
-          <span className="text-sm text-white/60">Site</span>
-          <input value={filterSite} onChange={(e) => setFilterSite(e.target.value)} className="bg-black text-white border border-white/30 rounded-xl px-3 py-1" />
+          <button
+            onClick={() => setCorrection({ mode: "add" })}
+            disabled={allSites}
+            title={allSites ? "Pick a site to add a punch" : undefined}
+            className="ml-auto px-3 py-1 rounded-xl border border-white/40 disabled:opacity-40"
+          >
+            Add missing punch
+          </button>
         </div>
+        <div className="mb-3">
+          <ChainStatus report={chain} />
+        </div>
+        {correction && (
+          <PunchCorrection
+            key={correction.mode === "add" ? "add" : `${correction.mode}-${correction.event.id}`}
+            correction={correction}
+            employees={db.employees}
+            siteId={filterSite}
+            onSubmit={applyCorrection}
+            onCancel={() => setCorrection(null)}
+          />
+        )}
         <div className="max-h-[480px] overflow-auto space-y-3 pr-1">
           {siteEvents.map((e) => {
             const emp = db.employees.find((x) => x.id === e.employeeId);
             return (
-              <div key={e.id} className="flex items-center gap-3 rounded-2xl border border-white/15 p-3">
+              <div key={e.id} className={`flex items-center gap-3 rounded-2xl border border-white/15 p-3 ${e.voided ? "opacity-50" : ""}`}>
                 <div className="min-w-0">
                   <div className="font-semibold truncate">
                     {emp ? `${emp.firstName} ${emp.lastName} (${emp.employeeId})` : e.employeeId} ·{" "}
-                    <span className="uppercase">{e.type}</span>
+                    <span className={`uppercase ${e.voided ? "line-through" : ""}`}>{e.type}</span>
+                    {e.voided && <span className="ml-2 text-xs">VOIDED</span>}
+                    {brokenIds.has(e.id) && (
+                      <span className="ml-2 text-xs text-red-300">⛓ {CHAIN_PROBLEM_LABELS[brokenIds.get(e.id)!]}</span>
+                    )}
+                    {e.exception && (
+                      <span className="ml-2 text-xs text-red-300">
+                        ⚠ {describeException(e.exception)}
+                        {e.exception.reviewedAt && " (reviewed)"}
+                      </span>
+                    )}
                   </div>
                   <div className="text-xs text-white/60">
-                    {new Date(e.ts).toLocaleString()} · Synced: {e.synced ? "Yes" : "No"} · Factors: {e.factors.identity}{" "}
+                    {allSites && `${siteLabel(db, e.siteId)} · `}
+                    {formatInSite(e.ts, zoneOf.get(e.siteId))} · Synced: {e.synced ? "Yes" : "No"} · Factors: {e.factors.identity}{" "}
                     + {e.factors.biometric}
+                    {e.schedule && ` · ${SCHEDULE_TAG_LABELS[e.schedule]}`}
+                    {e.faceMatch?.result === "pending" && " · Face match pending"}
+                    {e.faceMatch?.score !== undefined && (
+                      <span className={e.faceMatch.result === "low" && !e.faceMatch.review ? "text-red-300" : ""}>
+                        {" "}
+                        · Face {Math.round(e.faceMatch.score * 100)}%
+                        {e.faceMatch.review && ` (${FACE_VERDICT_LABELS[e.faceMatch.review.verdict]})`}
+                      </span>
+                    )}
+                    {e.liveness && (
+                      <span className={e.liveness.result === "fail" ? "text-red-300" : ""}>
+                        {" "}
+                        · Liveness {e.liveness.result} ({e.liveness.challenge})
+                      </span>
+                    )}
                   </div>
+                  {e.amendments?.length ? (
+                    <details className="text-xs text-white/60 mt-1">
+                      <summary className="cursor-pointer">History ({e.amendments.length})</summary>
+                      {e.amendments.map((a) => (
+                        <div key={a.id}>{describeAmendment(a)}</div>
+                      ))}
+                    </details>
+                  ) : null}
+                  {!e.voided && (
+                    <div className="flex gap-2 mt-2 text-xs">
+                      <button onClick={() => setCorrection({ mode: "edit", event: e })} className="px-2 py-1 rounded-lg border border-white/40">
+                        Edit
+                      </button>
+                      <button onClick={() => setCorrection({ mode: "void", event: e })} className="px-2 py-1 rounded-lg border border-white/40">
+                        Void
+                      </button>
+                    </div>
+                  )}
                 </div>
-                {e.selfieDataUrl ? (
-                  <img src={e.selfieDataUrl} alt="selfie" className="ml-auto w-14 h-14 object-cover rounded-lg border border-white/20" />
+                {e.selfie ? (
+                  <SelfieThumb id={e.id} selfie={e.selfie} className="ml-auto w-14 h-14 rounded-lg border border-white/20" />
                 ) : (
                   <div className="ml-auto text-xs text-white/40">No selfie</div>
                 )}
@@ -881,171 +1684,2228 @@ function ManagerView({
         </div>
       </Section>
 
-      <Section title="Employee Directory (this site)">
-        <EmployeeDirectory db={db} save={save} />
+      <Section title={`Punch Exceptions (${exceptions.length}) · ${scopeLabel}`} className="mb-0 lg:col-span-2">
+        <div className="space-y-3 max-h-[360px] overflow-auto pr-1">
+          {exceptions.map((e) => (
+            <div key={e.id} className="flex items-center gap-3 rounded-2xl border border-white/15 p-3">
+              <div className="min-w-0">
+                <div className="font-semibold truncate">
+                  {resolveEmpName(e.employeeId, db.employees)} · <span className="uppercase">{e.type}</span>
+                </div>
+                <div className="text-xs text-white/60">
+                  {allSites && `${siteLabel(db, e.siteId)} · `}
+                  {formatInSite(e.ts, zoneOf.get(e.siteId))} ·{" "}
+                  <span className="text-red-300">{describeException(e.exception!)}</span>
+                </div>
+              </div>
+              <button onClick={() => markReviewed(e.id)} className="ml-auto px-3 py-2 rounded-xl border border-white/40">
+                Mark reviewed
+              </button>
+            </div>
+          ))}
+          {exceptions.length === 0 && <div className="text-white/60">No punches awaiting review.</div>}
+        </div>
+      </Section>
+
+      <Section title={`Face Match Review · ${scopeLabel}`} className="mb-0 lg:col-span-2">
+        <FaceReview db={db} save={save} actor={actor} events={siteEvents} siteId={filterSite} />
+      </Section>
+
+      <Section title={`Daily Attendance · ${scopeLabel}`} className="mb-0 lg:col-span-2">
+        <DailyAttendance db={db} siteId={filterSite} />
       </Section>
 
-      <Section title="CSV Export (Local)">
-        <CSVExport events={siteEvents} employees={db.employees} />
+      <Section title="Timesheets" className="mb-0 lg:col-span-2">
+        <Timesheets
+          events={liveSiteEvents}
+          employees={db.employees}
+          mealRequiredAfterHours={db.device.mealRequiredAfterHours}
+        />
       </Section>
 
+      {can(actor, "employees") && (
+        <Section title={`Employee Directory · ${scopeLabel}`}>
+          <EmployeeDirectory db={db} save={save} actor={actor} siteId={filterSite} />
+        </Section>
+      )}
+
+      {can(actor, "employees") && (
+        <Section title={`Schedules · ${scopeLabel}`} className="lg:col-span-2">
+          <ScheduleEditor db={db} save={save} actor={actor} siteId={filterSite} />
+        </Section>
+      )}
+
+      {can(actor, "employees") && (
+        <Section title={`Import Roster · ${scopeLabel}`} className="lg:col-span-2">
+          <RosterImport db={db} save={save} actor={actor} siteId={filterSite} />
+        </Section>
+      )}
+
+      {can(actor, "export") && (
+        <Section title={`Export · ${scopeLabel}`} className="lg:col-span-2">
+          <ExportBuilder
+            events={siteEvents}
+            employees={db.employees}
+            mealRequiredAfterHours={db.device.mealRequiredAfterHours}
+            onExport={(detail) => save(audit(db, actor.username, "export", `${detail}, ${scopeLabel}`))}
+          />
+        </Section>
+      )}
+
+      {can(actor, "accounts") && (
+        <Section title="Manager Accounts" className="lg:col-span-2">
+          <ManagerAccounts db={db} save={save} actor={actor} />
+        </Section>
+      )}
+
+      {can(actor, "accounts") && (
+        <Section title="Activity Log" className="lg:col-span-2">
+          <div className="max-h-[360px] overflow-auto text-sm space-y-1 pr-1">
+            {[...db.audit].reverse().map((a) => (
+              <div key={a.id} className="flex gap-3">
+                <span className="text-white/60 shrink-0">{new Date(a.at).toLocaleString()}</span>
+                <span className="font-semibold shrink-0">{a.by}</span>
+                <span className="shrink-0">{a.action}</span>
+                <span className="text-white/60 truncate">{a.detail}</span>
+              </div>
+            ))}
+            {db.audit.length === 0 && <div className="text-white/60">No manager activity yet.</div>}
+          </div>
+        </Section>
+      )}
+
       <Section title="Admin Session">
-        <button onClick={() => setAdminAuthed(false)} className="px-4 py-2 rounded-xl border border-white/40">
+        <div className="text-sm text-white/60 mb-3">
+          Signed in as <span className="font-semibold text-white">{actor.name}</span> ({actor.username},{" "}
+          {ROLE_LABELS[actor.role]})
+        </div>
+        <button onClick={() => setSessionId(null)} className="px-4 py-2 rounded-xl border border-white/40">
           Sign out
         </button>
+        <div className="text-xs text-white/50 mt-2">Signs out automatically after {SESSION_IDLE_MINUTES} minutes without input.</div>
+      </Section>
+
+      <Section title="My Access Code">
+        <ChangeAccessCode db={db} save={save} actor={actor} />
       </Section>
     </div>
   );
 }
 
-function EmployeeDirectory({ db }: { db: DB; save: (x: DB) => void }) {
-  const siteEmps = db.employees.filter((e) => e.siteId === db.device.siteId);
+/* ----------------------------- Manager sign-in ---------------------------- */
+function ManagerLogin({
+  db,
+  save,
+  onSignIn,
+  note,
+}: {
+  db: DB;
+  save: SaveDB;
+  onSignIn: (id: string) => void;
+  note?: string;
+}) {
+  const [username, setUsername] = useState("");
+  const [code, setCode] = useState("");
+
+  const login = async () => {
+    const locked = loginLockedUntil(db.device.loginThrottle);
+    if (locked) {
+      alert(`Too many failed sign-ins. Try again after ${locked.toLocaleTimeString()}.`);
+      return;
+    }
+    const acct = db.managers.find((m) => m.username === normalizeUsername(username) && !m.disabled);
+    const result = acct ? await checkLogin(acct, code) : null;
+    setCode("");
+    if (!acct || !result?.ok) {
+      const loginThrottle = loginFailed(db.device.loginThrottle);
+      save((cur) => ({ ...cur, device: { ...cur.device, loginThrottle: loginFailed(cur.device.loginThrottle) } }));
+      const until = loginLockedUntil(loginThrottle);
+      alert(until ? `Invalid username or code. Sign-in locked until ${until.toLocaleTimeString()}.` : "Invalid username or code");
+      return;
+    }
+    let account = result.next;
+    let recoveryKey: string | undefined;
+    let keyring = db.device.keyring;
+    if (keyring && account.vaultKey) {
+      await unlockWithCode(keyring, account.vaultKey, code);
+    } else if (!keyring && can(account, "settings")) {
+      // first admin sign-in: set up the PII vault; what is already stored is encrypted once the keyring is saved
+      const created = await createKeyring(code);
+      account = { ...account, vaultKey: created.wrap };
+      keyring = created.keyring;
+      recoveryKey = created.recoveryKey;
+    }
+    try {
+      await save((cur) => {
+        let next = cur.device.loginThrottle ? { ...cur, device: { ...cur.device, loginThrottle: undefined } } : cur;
+        if (recoveryKey) next = audit({ ...next, device: { ...next.device, keyring } }, account.username, "settings-change", "keyring");
+        if (account !== acct) next = { ...next, managers: next.managers.map((m) => (m.id === acct.id ? account : m)) };
+        return next;
+      });
+    } catch (e: any) {
+      lockVault();
+      return alert(`Unable to save: ${e?.message || e}`);
+    }
+    setUsername("");
+    onSignIn(acct.id);
+    if (recoveryKey) {
+      prompt(
+        "Employee personal data on this kiosk is now encrypted. Write down this recovery key and keep it somewhere safe. It is shown only once and is the only way back in if every manager code is lost.",
+        recoveryKey
+      );
+    }
+    // the first encryption, or a key rotation that was cut short, runs while the vault is open
+    if (keyring && isUnlocked() && (recoveryKey || needsSettling(db))) {
+      settleVault(keyring, db, mapEventSelfies, save).catch((e) => console.warn("Vault migration incomplete", e));
+    }
+  };
+
   return (
-    <div className="overflow-auto">
-      <table className="w-full text-sm">
-        <thead className="text-white/70">
-          <tr className="border-b border-white/20">
-            <th className="text-left py-2">Employee ID</th>
-            <th className="text-left py-2">Name</th>
-            <th className="text-left py-2">Phone</th>
-            <th className="text-left py-2">Status</th>
-          </tr>
-        </thead>
-        <tbody>
-          {siteEmps.map((e) => (
-            <tr key={e.id} className="border-b border-white/10">
-              <td className="py-2">{e.employeeId}</td>
-              <td className="py-2">
-                {e.firstName} {e.lastName}
-              </td>
-              <td className="py-2">{e.phone || "—"}</td>
-              <td className="py-2">{e.status}</td>
+    <div className="max-w-xl mx-auto">
+      <Section title="Manager/Admin access" className="mb-0">
+        {note && <div className="text-sm text-white/60 mb-3">{note}</div>}
+        <input
+          placeholder="Username"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          autoCapitalize="none"
+          className="w-full bg-black text-white border border-white/30 rounded-xl px-3 py-2 mb-2"
+        />
+        <input
+          type="password"
+          placeholder="Access code"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && login()}
+          className="w-full bg-black text-white border border-white/30 rounded-xl px-3 py-2"
+        />
+        <div className="pt-3">
+          <button onClick={login} className="px-4 py-2 rounded-xl border border-white/40 bg-white text-black">
+            Enter
+          </button>
+        </div>
+        <div className="text-xs text-white/50 mt-2">Demo default: admin / 246810 (change it after signing in).</div>
+      </Section>
+    </div>
+  );
+}
+
+/* ---------------------------- Change own code ----------------------------- */
+function ChangeAccessCode({ db, save, actor }: { db: DB; save: SaveDB; actor: ManagerAccount }) {
+  const [current, setCurrent] = useState("");
+  const [code, setCode] = useState("");
+  const [confirmCode, setConfirmCode] = useState("");
+
+  const change = async () => {
+    const locked = loginLockedUntil(db.device.loginThrottle);
+    if (locked) return alert(`Too many failed attempts. Try again after ${locked.toLocaleTimeString()}.`);
+    if (!validCode(code)) return alert(`Access code should be at least ${MIN_CODE_LENGTH} characters.`);
+    if (code !== confirmCode) return alert("The new codes do not match.");
+    // a wrong current code counts as a failed sign-in
+    if (!(await checkLogin(actor, current)).ok) {
+      save((cur) => ({ ...cur, device: { ...cur.device, loginThrottle: loginFailed(cur.device.loginThrottle) } }));
+      setCurrent("");
+      return alert("Current code is incorrect.");
+    }
+    const vaultKey = isUnlocked() ? await wrapVaultForCode(code) : undefined;
+    const next = { ...actor, credential: await hashPin(code), legacyCodeHash: undefined, vaultKey };
+    save((cur) => {
+      const managers = cur.managers.map((m) => (m.id === actor.id ? next : m));
+      return audit({ ...cur, managers }, actor.username, "account-change", `${actor.username}: access code changed`);
+    });
+    setCurrent("");
+    setCode("");
+    setConfirmCode("");
+    alert("Access code changed.");
+  };
+
+  const field = "w-full bg-black text-white border border-white/30 rounded-xl px-3 py-2";
+
+  return (
+    <div className="grid gap-2">
+      <input type="password" placeholder="Current code" value={current} onChange={(e) => setCurrent(e.target.value)} className={field} />
+      <input type="password" placeholder="New code" value={code} onChange={(e) => setCode(e.target.value)} className={field} />
+      <input
+        type="password"
+        placeholder="Repeat new code"
+        value={confirmCode}
+        onChange={(e) => setConfirmCode(e.target.value)}
+        className={field}
+      />
+      <div>
+        <button onClick={change} className="px-4 py-2 rounded-xl border border-white/40 bg-white text-black">
+          Change access code
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/* ---------------------------- Manager Accounts ---------------------------- */
+function ManagerAccounts({ db, save, actor }: { db: DB; save: SaveDB; actor: ManagerAccount }) {
+  const [username, setUsername] = useState("");
+  const [name, setName] = useState("");
+  const [role, setRole] = useState<ManagerRole>("supervisor");
+  const [code, setCode] = useState("");
+
+  const activeAdmins = db.managers.filter((m) => m.role === "admin" && !m.disabled);
+
+  const update = (acct: ManagerAccount, next: ManagerAccount, detail: string) => {
+    save((cur) => {
+      const managers = cur.managers.map((m) => (m.id === acct.id ? next : m));
+      return audit({ ...cur, managers }, actor.username, "account-change", `${acct.username}: ${detail}`);
+    });
+  };
+
+  // the device must always keep someone who can manage accounts
+  const isLastAdmin = (acct: ManagerAccount) => acct.role === "admin" && !acct.disabled && activeAdmins.length === 1;
+
+  const add = async () => {
+    const u = normalizeUsername(username);
+    if (!validUsername(u)) return alert("Username should be 2-32 letters, digits, dots, dashes or underscores.");
+    if (db.managers.some((m) => m.username === u)) return alert("That username is taken.");
+    if (!name.trim()) return alert("Enter the manager's name.");
+    if (!validCode(code)) return alert(`Access code should be at least ${MIN_CODE_LENGTH} characters.`);
+    const created = await newAccount({ username: u, name: name.trim(), role }, code);
+    const acct = isUnlocked() ? { ...created, vaultKey: await wrapVaultForCode(code) } : created;
+    save((cur) => audit({ ...cur, managers: [...cur.managers, acct] }, actor.username, "account-change", `${u}: created as ${role}`));
+    setUsername("");
+    setName("");
+    setCode("");
+  };
+
+  const changeRole = (acct: ManagerAccount, next: ManagerRole) => {
+    if (isLastAdmin(acct)) return alert("At least one active admin is required.");
+    update(acct, { ...acct, role: next }, `role ${acct.role} → ${next}`);
+  };
+
+  const toggleDisabled = (acct: ManagerAccount) => {
+    if (!acct.disabled && (acct.id === actor.id || isLastAdmin(acct))) {
+      return alert("You cannot disable your own account or the last active admin.");
+    }
+    update(acct, { ...acct, disabled: !acct.disabled }, acct.disabled ? "enabled" : "disabled");
+  };
+
+  const resetCode = async (acct: ManagerAccount) => {
+    if (acct.id === actor.id) return alert("Change your own code under Admin Session; it needs your current code.");
+    const input = prompt(`New access code for ${acct.name} (at least ${MIN_CODE_LENGTH} characters)`);
+    if (input === null) return;
+    if (!validCode(input)) return alert(`Access code should be at least ${MIN_CODE_LENGTH} characters.`);
+    const vaultKey = isUnlocked() ? await wrapVaultForCode(input) : undefined;
+    update(acct, { ...acct, credential: await hashPin(input), legacyCodeHash: undefined, vaultKey }, "access code reset");
+    alert("Access code reset.");
+  };
+
+  const field = "bg-black text-white border border-white/30 rounded-xl px-3 py-2";
+
+  return (
+    <div className="space-y-4">
+      <div className="overflow-auto">
+        <table className="w-full text-sm">
+          <thead className="text-white/70">
+            <tr className="border-b border-white/20">
+              <th className="text-left py-2">Username</th>
+              <th className="text-left py-2">Name</th>
+              <th className="text-left py-2">Role</th>
+              <th className="text-left py-2">Status</th>
+              <th className="text-left py-2">Actions</th>
             </tr>
+          </thead>
+          <tbody>
+            {db.managers.map((m) => (
+              <tr key={m.id} className="border-b border-white/10">
+                <td className="py-2">{m.username}</td>
+                <td className="py-2">{m.name}</td>
+                <td className="py-2">
+                  <select
+                    value={m.role}
+                    onChange={(e) => changeRole(m, e.target.value as ManagerRole)}
+                    className="bg-black text-white border border-white/30 rounded-lg px-2 py-1"
+                  >
+                    {(Object.keys(ROLE_LABELS) as ManagerRole[]).map((r) => (
+                      <option key={r} value={r}>
+                        {ROLE_LABELS[r]}
+                      </option>
+                    ))}
+                  </select>
+                </td>
+                <td className="py-2">{m.disabled ? "Disabled" : "Active"}</td>
+                <td className="py-2 flex gap-2">
+                  <button onClick={() => resetCode(m)} className="px-2 py-1 rounded-lg border border-white/40">
+                    Reset code
+                  </button>
+                  <button onClick={() => toggleDisabled(m)} className="px-2 py-1 rounded-lg border border-white/40">
+                    {m.disabled ? "Enable" : "Disable"}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="grid sm:grid-cols-5 gap-2 text-sm">
+        <input placeholder="Username" value={username} onChange={(e) => setUsername(e.target.value)} className={field} />
+        <input placeholder="Full name" value={name} onChange={(e) => setName(e.target.value)} className={field} />
+        <select value={role} onChange={(e) => setRole(e.target.value as ManagerRole)} className={field}>
+          {(Object.keys(ROLE_LABELS) as ManagerRole[]).map((r) => (
+            <option key={r} value={r}>
+              {ROLE_LABELS[r]}
+            </option>
           ))}
-          {siteEmps.length === 0 && (
-            <tr>
-              <td className="py-3 text-white/60" colSpan={4}>
-                No employees at this site yet.
-              </td>
-            </tr>
-          )}
-        </tbody>
-      </table>
+        </select>
+        <input type="password" placeholder="Access code" value={code} onChange={(e) => setCode(e.target.value)} className={field} />
+        <button onClick={add} className="px-3 py-2 rounded-xl border border-white/40 bg-white text-black">
+          Add manager
+        </button>
+      </div>
+      <div className="text-xs text-white/50">
+        Supervisors can approve employees and correct punches. Admins can also change settings, export data and manage
+        employees and accounts.
+      </div>
     </div>
   );
 }
 
-/* ----------------------------- CSV Export --------------------------------- */
-function CSVExport({ events, employees }: { events: EventRecord[]; employees: Employee[] }) {
-  const csv = React.useMemo(() => {
-    const header = [
-      "eventId",
-      "employeeName",
-      "employeeBusinessId",
-      "type",
-      "timestamp",
-      "synced",
-      "biometric",
-      "hasSelfie",
-    ].join(",");
-    const rows = events.map((e) => {
-      const emp = employees.find((x) => x.id === e.employeeId);
-      const empName = emp ? `${emp.firstName} ${emp.lastName}` : "";
-      const empBizId = emp?.employeeId || "";
-      return [
-        e.id,
-        JSON.stringify(empName),
-        empBizId,
-        e.type,
-        e.ts,
-        String(e.synced),
-        e.factors.biometric,
-        String(!!e.selfieDataUrl),
-      ].join(",");
-    });
-    return [header, ...rows].join("\n");
-  }, [events, employees]);
+/* --------------------------- Punch Corrections ---------------------------- */
+type Correction = { mode: "add" } | { mode: "edit" | "void"; event: EventRecord };
+interface CorrectionValues {
+  employeeId: string;
+  type: PunchType;
+  ts: string;
+}
 
-  const download = () => {
-    const blob = new Blob([csv], { type: "text/csv;charset=utf-8;" });
-    const a = document.createElement("a");
-    a.href = URL.createObjectURL(blob);
-    a.download = `attendance-${Date.now()}.csv`;
-    a.click();
+const toLocalInput = (iso: string) => {
+  const d = new Date(iso);
+  return new Date(d.getTime() - d.getTimezoneOffset() * 60_000).toISOString().slice(0, 16);
+};
+
+function PunchCorrection({
+  correction,
+  employees,
+  siteId,
+  onSubmit,
+  onCancel,
+}: {
+  correction: Correction;
+  employees: Employee[];
+  siteId: string;
+  onSubmit: (values: CorrectionValues, why: Omit<AmendMeta, "by">) => void;
+  onCancel: () => void;
+}) {
+  const target = correction.mode === "add" ? null : correction.event;
+  const candidates = employees.filter((e) => e.siteId === siteId && e.status === "active");
+  const [employeeId, setEmployeeId] = useState(target?.employeeId || candidates[0]?.id || "");
+  const [type, setType] = useState<PunchType>(target?.type || "clock-in");
+  const [when, setWhen] = useState(toLocalInput(target?.ts || nowISO()));
+  const [reason, setReason] = useState<AmendmentReason | "">("");
+  const [note, setNote] = useState("");
+
+  const submit = () => {
+    if (!reason) return alert("Choose a reason for the correction.");
+    if (reason === "other" && !note.trim()) return alert("Add a note explaining the correction.");
+    if (correction.mode === "add" && !employeeId) return alert("Choose an employee.");
+    const ts = new Date(when);
+    if (isNaN(ts.getTime())) return alert("Enter a valid date and time.");
+    if (ts.getTime() > Date.now()) return alert("Punches cannot be in the future.");
+    onSubmit({ employeeId, type, ts: ts.toISOString() }, { reason, note: note.trim() || undefined });
   };
 
+  const field = "bg-black text-white border border-white/30 rounded-xl px-3 py-2";
+  const title = { add: "Add missing punch", edit: "Edit punch", void: "Void punch" }[correction.mode];
+
   return (
-    <div className="flex items-center gap-3">
-      <button onClick={download} className="px-4 py-2 rounded-xl border border-white/40 bg-white text-black">
-        Download CSV
-      </button>
-      <div className="text-xs text-white/50">Exports current site events (local demo).</div>
+    <div className="rounded-2xl border border-white/40 p-3 mb-3 space-y-2 text-sm">
+      <div className="font-semibold">{title}</div>
+      {target && (
+        <div className="text-xs text-white/60">
+          {resolveEmpName(target.employeeId, employees)} · {PUNCH_LABELS[target.type]} ·{" "}
+          {new Date(target.ts).toLocaleString()}
+        </div>
+      )}
+      {correction.mode === "add" && (
+        <select value={employeeId} onChange={(e) => setEmployeeId(e.target.value)} className={`w-full ${field}`}>
+          {candidates.length === 0 && <option value="">No active employees at this site</option>}
+          {candidates.map((e) => (
+            <option key={e.id} value={e.id}>
+              {e.firstName} {e.lastName} ({e.employeeId})
+            </option>
+          ))}
+        </select>
+      )}
+      {correction.mode !== "void" && (
+        <div className="grid grid-cols-2 gap-2">
+          <select value={type} onChange={(e) => setType(e.target.value as PunchType)} className={field}>
+            {(Object.keys(PUNCH_LABELS) as PunchType[]).map((t) => (
+              <option key={t} value={t}>
+                {PUNCH_LABELS[t]}
+              </option>
+            ))}
+          </select>
+          <input type="datetime-local" value={when} onChange={(e) => setWhen(e.target.value)} className={field} />
+        </div>
+      )}
+      <select value={reason} onChange={(e) => setReason(e.target.value as AmendmentReason)} className={`w-full ${field}`}>
+        <option value="">Reason…</option>
+        {(Object.keys(REASON_LABELS) as AmendmentReason[]).map((r) => (
+          <option key={r} value={r}>
+            {REASON_LABELS[r]}
+          </option>
+        ))}
+      </select>
+      <input placeholder="Note (optional)" value={note} onChange={(e) => setNote(e.target.value)} className={`w-full ${field}`} />
+      <div className="flex gap-2">
+        <button onClick={submit} className="px-3 py-2 rounded-xl border border-white/40 bg-white text-black">
+          {correction.mode === "void" ? "Void punch" : "Save"}
+        </button>
+        <button onClick={onCancel} className="px-3 py-2 rounded-xl border border-white/40">
+          Cancel
+        </button>
+      </div>
     </div>
   );
 }
 
-/* ----------------------------- Settings View ------------------------------ */
-function SettingsView({ db, save }: { db: DB; save: (x: DB) => void }) {
-  const [online, setOnline] = useState(db.device.online);
-  const [requireSelfie, setRequireSelfie] = useState(db.device.requireSelfie);
-  const [ret, setRet] = useState(db.device.selfieRetentionWeeks);
-  const [token, setToken] = useState("");
-  const [adminCode, setAdminCode] = useState("");
+function EmployeeDirectory({
+  db,
+  save,
+  actor,
+  siteId,
+}: {
+  db: DB;
+  save: SaveDB;
+  actor: ManagerAccount;
+  siteId: string;
+}) {
+  const [query, setQuery] = useState("");
+  const [sort, setSort] = useState<EmployeeSort>("name");
+  const [editing, setEditing] = useState<string | null>(null);
+  const siteEmps = db.employees.filter((e) => e.orgId === db.device.orgId && inSite(e.siteId, siteId));
+  const shown = sortEmployees(searchEmployees(siteEmps, query), sort);
+  const label = (e: Employee) => `${fullName(e)} (${e.employeeId})`;
 
-  const enroll = () => {
-    if (!token.includes("|")) {
-      alert("Invalid token format. Expected ORG|SITE|…");
-      return;
+  const saveEdit = async (emp: Employee, fields: EmployeeEdit) => {
+    const updated = await encryptEmployee(db.device.keyring, { ...emp, ...fields });
+    save((cur) => {
+      const next = { ...cur, employees: cur.employees.map((x) => (x.id === emp.id ? updated : x)) };
+      return audit(next, actor.username, "employee-edit", label(updated));
+    });
+    setEditing(null);
+  };
+
+  const reactivate = (emp: Employee) => {
+    const next = { ...db, employees: db.employees.map((x) => (x.id === emp.id ? { ...x, status: "active" as const } : x)) };
+    save(audit(next, actor.username, "employee-approve", `${label(emp)}, reactivated`));
+  };
+
+  const toggleHold = (emp: Employee) => {
+    const who = emp.erasedAt ? `Employee ID ${emp.employeeId}` : label(emp);
+    if (emp.legalHold) {
+      if (!confirm(`Release the legal hold on ${who}? Retention purges resume for their data.`)) return;
+      const next = { ...db, employees: db.employees.map((x) => (x.id === emp.id ? { ...x, legalHold: undefined } : x)) };
+      return save(audit(next, actor.username, "legal-hold", `${who}: released (${emp.legalHold.reason})`));
     }
-    const [org, site] = token.split("|");
-    const next = {
-      ...db,
-      device: { ...db.device, enrolled: true, orgId: org, siteId: site, online, requireSelfie, selfieRetentionWeeks: ret },
-    };
-    save(next);
-    setToken("");
-    alert("Device enrolled.");
+    const reason = prompt(`Legal hold for ${who}: nothing about them is purged or erased until it is released. Reason / case reference:`);
+    if (!reason?.trim()) return;
+    const legalHold = { since: nowISO(), by: actor.username, reason: reason.trim() };
+    const next = { ...db, employees: db.employees.map((x) => (x.id === emp.id ? { ...x, legalHold } : x)) };
+    save(audit(next, actor.username, "legal-hold", `${who}: placed (${legalHold.reason})`));
   };
 
-  const setCode = async () => {
-    if (!adminCode) {
-      alert("Enter a numeric admin code");
-      return;
+  const move = (emp: Employee) => {
+    const known = siteOptions(db).filter((x) => x.registered && x.id !== emp.siteId);
+    const list = known.length ? ` Registered sites: ${known.map((x) => x.id).join(", ")}.` : "";
+    const input = prompt(`Move ${fullName(emp)} to which site?${list} Punches already recorded stay with ${emp.siteId}.`);
+    if (input === null) return;
+    if (known.length && !known.some((x) => x.id === input.trim())) return alert(`${input.trim()} is not a registered site.`);
+    try {
+      const next = { ...db, employees: moveEmployee(db.employees, emp, input) };
+      save(audit(next, actor.username, "employee-move", `${label(emp)}: ${emp.siteId} → ${input.trim()}`));
+    } catch (e: any) {
+      alert(e?.message || e);
     }
-    const next = { ...db, device: { ...db.device, adminCodeHash: await sha256(adminCode) } };
-    save(next);
-    setAdminCode("");
-    alert("Admin code updated.");
   };
 
-  const savePrefs = () => {
-    const next = { ...db, device: { ...db.device, online, requireSelfie, selfieRetentionWeeks: ret } };
-    save(next);
-    alert("Settings saved.");
+  const erase = (emp: Employee) => {
+    if (onHold(emp)) return alert(`${fullName(emp)} is on legal hold. Release the hold before erasing.`);
+    const typed = prompt(
+      `Erase ${fullName(emp)}'s personal data? Name, phone, address, photos, biometric, card and PIN are removed ` +
+        `for good; punches stay under employee ID ${emp.employeeId} for payroll. Type the employee ID to confirm.`
+    );
+    if (typed === null) return;
+    if (typed.trim() !== emp.employeeId) return alert("Employee ID did not match. Nothing was erased.");
+    save(audit(eraseEmployee(db, emp), actor.username, "employee-erase", `Employee ID ${emp.employeeId}`));
   };
 
-  const factoryReset = () => {
-    if (!confirm("This will clear all local data and unenroll the device. Continue?")) return;
-    localStorage.removeItem(DB_KEY);
-    window.location.reload();
+  const enrollBiometric = async (emp: Employee) => {
+    if (emp.webauthn && !confirm(`Replace the biometric enrolled for ${emp.firstName} ${emp.lastName}?`)) return;
+    try {
+      const webauthn = await enrollCredential(emp, { software: !!db.device.allowSoftwareAuthenticator });
+      save((cur) => ({ ...cur, employees: cur.employees.map((x) => (x.id === emp.id ? { ...x, webauthn } : x)) }));
+    } catch (e: any) {
+      alert(`Biometric enrollment failed: ${e?.message || e}`);
+    }
   };
 
-  return (
-    <div className="grid md:grid-cols-2 gap-8">
-      <Section title="Enrollment & Identity (Read-only after bind)">
-        {db.device.enrolled ? (
-          <div className="grid gap-2 text-sm">
-            <div>
-              <span className="text-white/60">Org ID:</span> <span className="font-semibold">{db.device.orgId}</span>
-            </div>
+  const printBadgesFor = (emps: Employee[]) => {
+    let key = db.device.badgeKey;
+    if (!key) {
+      key = newBadgeKey();
+      save({ ...db, device: { ...db.device, badgeKey: key } });
+    }
+    printBadges(key, emps).catch((e) => alert(e?.message || "Unable to print badges"));
+  };
+
+  const assignCard = (emp: Employee) => {
+    const input = prompt(
+      `Swipe or tap the card for ${emp.firstName} ${emp.lastName}, or type its number. Leave empty to unassign.`,
+      emp.badgeId || ""
+    );
+    if (input === null) return;
+    const card = input.trim() ? normalizeCard(input).card : undefined;
+    const holder = card && db.employees.find((x) => x.id !== emp.id && x.orgId === emp.orgId && x.badgeId === card);
+    if (holder && !confirm(`Card ${card} belongs to ${holder.firstName} ${holder.lastName}. Move it to ${emp.firstName}?`)) {
+      return;
+    }
+    const employees = db.employees.map((x) => {
+      if (x.id === emp.id) return { ...x, badgeId: card };
+      if (holder && x.id === holder.id) return { ...x, badgeId: undefined };
+      return x;
+    });
+    save({ ...db, employees });
+  };
+
+  const resetPin = async (emp: Employee) => {
+    const input = prompt(`New PIN for ${emp.firstName} ${emp.lastName} (4-8 digits). Leave empty to remove the PIN.`);
+    if (input === null) return;
+    if (input && !validPin(input)) {
+      alert("PIN should be 4-8 digits");
+      return;
+    }
+    const pin = input ? await hashPin(input) : undefined;
+    save((cur) => ({ ...cur, employees: cur.employees.map((x) => (x.id === emp.id ? { ...x, pin } : x)) }));
+    alert(input ? "PIN reset." : "PIN removed.");
+  };
+
+  const activeEmps = siteEmps.filter((e) => e.status === "active");
+  const btn = "px-2 py-1 rounded-lg border border-white/30 text-xs";
+
+  return (
+    <div className="overflow-auto">
+      <div className="flex flex-wrap items-center gap-2 mb-2">
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search name, ID or card"
+          className="bg-black text-white border border-white/30 rounded-xl px-3 py-1 text-sm"
+        />
+        <select
+          value={sort}
+          onChange={(e) => setSort(e.target.value as EmployeeSort)}
+          className="bg-black text-white border border-white/30 rounded-xl px-3 py-1 text-sm"
+        >
+          {(Object.keys(EMPLOYEE_SORT_LABELS) as EmployeeSort[]).map((k) => (
+            <option key={k} value={k}>
+              Sort: {EMPLOYEE_SORT_LABELS[k]}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => printBadgesFor(activeEmps)}
+          disabled={activeEmps.length === 0}
+          className="ml-auto px-3 py-1 rounded-xl border border-white/40 text-xs disabled:opacity-40"
+        >
+          Print all QR badges
+        </button>
+      </div>
+      <table className="w-full text-sm">
+        <thead className="text-white/70">
+          <tr className="border-b border-white/20">
+            <th className="text-left py-2">Employee ID</th>
+            <th className="text-left py-2">Name</th>
+            <th className="text-left py-2">Phone</th>
+            <th className="text-left py-2">Status</th>
+            <th className="text-left py-2">Biometric</th>
+            <th className="text-left py-2">Badge</th>
+            <th className="text-left py-2">Card</th>
+            <th className="text-left py-2">PIN</th>
+            <th className="text-left py-2">Manage</th>
+          </tr>
+        </thead>
+        <tbody>
+          {shown.map((e) =>
+            e.erasedAt ? (
+              <tr key={e.id} className="border-b border-white/10 text-white/50">
+                <td className="py-2">{e.employeeId}</td>
+                <td className="py-2" colSpan={7}>
+                  Personal data erased {new Date(e.erasedAt).toLocaleDateString()}
+                  {e.legalHold && <span className="ml-2 text-xs text-red-300">⚖ legal hold</span>}
+                </td>
+                <td className="py-2">
+                  <button onClick={() => toggleHold(e)} className={btn}>
+                    {e.legalHold ? "Release hold" : "Hold"}
+                  </button>
+                </td>
+              </tr>
+            ) : (
+              <React.Fragment key={e.id}>
+                <tr className="border-b border-white/10">
+                  <td className="py-2">
+                    {e.employeeId}
+                    {siteId === ALL_SITES && <div className="text-xs text-white/50">{e.siteId}</div>}
+                  </td>
+                  <td className="py-2">
+                    {fullName(e)}
+                    {e.legalHold && (
+                      <div className="text-xs text-red-300" title={`Since ${new Date(e.legalHold.since).toLocaleDateString()} by ${e.legalHold.by}`}>
+                        ⚖ Legal hold: {e.legalHold.reason}
+                      </div>
+                    )}
+                  </td>
+                  <td className="py-2">
+                    <SecretText value={e.phone} />
+                  </td>
+                  <td className="py-2">{e.status}</td>
+                  <td className="py-2">
+                    <button onClick={() => enrollBiometric(e)} className={btn}>
+                      {e.webauthn ? `Re-enroll${e.webauthn.software ? " (test)" : ""}` : "Enroll"}
+                    </button>
+                  </td>
+                  <td className="py-2">
+                    {e.status === "active" && (
+                      <button onClick={() => printBadgesFor([e])} className={btn}>
+                        Print QR
+                      </button>
+                    )}
+                  </td>
+                  <td className="py-2">
+                    <button onClick={() => assignCard(e)} className={btn}>
+                      {e.badgeId || "Assign"}
+                    </button>
+                  </td>
+                  <td className="py-2">
+                    <button onClick={() => resetPin(e)} className={btn}>
+                      {!e.pin ? "Set" : pinLockedUntil(e.pin) ? "Locked · reset" : "Reset"}
+                    </button>
+                  </td>
+                  <td className="py-2">
+                    <div className="flex gap-1">
+                      <button onClick={() => setEditing(editing === e.id ? null : e.id)} className={btn}>
+                        Edit
+                      </button>
+                      <button onClick={() => move(e)} className={btn}>
+                        Move
+                      </button>
+                      {e.status === "disabled" && (
+                        <button onClick={() => reactivate(e)} className={btn}>
+                          Reactivate
+                        </button>
+                      )}
+                      <button onClick={() => toggleHold(e)} className={btn}>
+                        {e.legalHold ? "Release hold" : "Hold"}
+                      </button>
+                      <button onClick={() => erase(e)} className={`${btn} text-red-300`}>
+                        Erase
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+                {editing === e.id && (
+                  <tr className="border-b border-white/10">
+                    <td colSpan={9} className="py-2">
+                      <EmployeeEditor emp={e} onSave={(f) => saveEdit(e, f)} onCancel={() => setEditing(null)} />
+                    </td>
+                  </tr>
+                )}
+              </React.Fragment>
+            )
+          )}
+          {shown.length === 0 && (
+            <tr>
+              <td className="py-3 text-white/60" colSpan={9}>
+                {siteEmps.length ? "No employees match." : `No employees at ${siteLabel(db, siteId)} yet.`}
+              </td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+type EmployeeEdit = Pick<Employee, "firstName" | "lastName" | "phone" | "address">;
+
+/** Inline edit of names and contact details; encrypted fields stay as they are while the vault is locked. */
+function EmployeeEditor({
+  emp,
+  onSave,
+  onCancel,
+}: {
+  emp: Employee;
+  onSave: (fields: EmployeeEdit) => Promise<void>;
+  onCancel: () => void;
+}) {
+  const [firstName, setFirstName] = useState(emp.firstName);
+  const [lastName, setLastName] = useState(emp.lastName);
+  // null = still decrypting or locked
+  const [contact, setContact] = useState<{ phone: string | null; address: string | null } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const plain = (v?: string) => (v ? decryptField(v).catch(() => null) : Promise.resolve(""));
+    Promise.all([plain(emp.phone), plain(emp.address)]).then(
+      ([phone, address]) => !cancelled && setContact({ phone, address })
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [emp.phone, emp.address]);
+
+  const submit = () => {
+    if (!firstName.trim() || !lastName.trim()) return alert("First and last name are required.");
+    const keep = (v: string | null, prev?: string) => (v === null ? prev : v.trim() || undefined);
+    onSave({
+      firstName: firstName.trim(),
+      lastName: lastName.trim(),
+      phone: keep(contact?.phone ?? null, emp.phone),
+      address: keep(contact?.address ?? null, emp.address),
+    }).catch((e) => alert(`Unable to save: ${e?.message || e}`));
+  };
+
+  const field = "bg-black text-white border border-white/30 rounded-xl px-3 py-1 disabled:opacity-50";
+  const locked = "Encrypted — sign in with an access code that unlocks personal data";
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <input value={firstName} onChange={(e) => setFirstName(e.target.value)} placeholder="First name" className={field} />
+      <input value={lastName} onChange={(e) => setLastName(e.target.value)} placeholder="Last name" className={field} />
+      <input
+        value={contact?.phone ?? ""}
+        disabled={contact?.phone == null}
+        onChange={(e) => setContact({ ...contact!, phone: e.target.value })}
+        placeholder={contact ? (contact.phone === null ? locked : "Phone") : "…"}
+        className={field}
+      />
+      <input
+        value={contact?.address ?? ""}
+        disabled={contact?.address == null}
+        onChange={(e) => setContact({ ...contact!, address: e.target.value })}
+        placeholder={contact ? (contact.address === null ? locked : "Address") : "…"}
+        className={`${field} flex-1 min-w-[12rem]`}
+      />
+      <button onClick={submit} disabled={!contact} className="px-3 py-1 rounded-xl border border-white/40 bg-white text-black disabled:opacity-40">
+        Save
+      </button>
+      <button onClick={onCancel} className="px-3 py-1 rounded-xl border border-white/40">
+        Cancel
+      </button>
+    </div>
+  );
+}
+
+/* ------------------------------ Timesheets -------------------------------- */
+function Timesheets({
+  events,
+  employees,
+  mealRequiredAfterHours,
+}: {
+  events: EventRecord[];
+  employees: Employee[];
+  mealRequiredAfterHours?: number;
+}) {
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date()));
+  const rows = useMemo(
+    () => weekSummary(events, employees, weekStart, { mealRequiredAfterHours }),
+    [events, employees, weekStart, mealRequiredAfterHours]
+  );
+  const days = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+  const weekTotal = rows.reduce((sum, r) => sum + r.total, 0);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 text-sm">
+        <button onClick={() => setWeekStart(addDays(weekStart, -7))} className="px-3 py-1 rounded-xl border border-white/40">
+          ‹
+        </button>
+        <span className="font-semibold">
+          Week of {weekStart.toLocaleDateString()} – {days[6].toLocaleDateString()}
+        </span>
+        <button onClick={() => setWeekStart(addDays(weekStart, 7))} className="px-3 py-1 rounded-xl border border-white/40">
+          ›
+        </button>
+        <button onClick={() => setWeekStart(startOfWeek(new Date()))} className="px-3 py-1 rounded-xl border border-white/40">
+          This week
+        </button>
+        <span className="ml-auto text-white/60">Total: {weekTotal.toFixed(2)} h</span>
+      </div>
+
+      <div className="overflow-auto">
+        <table className="w-full text-sm">
+          <thead className="text-white/70">
+            <tr className="border-b border-white/20">
+              <th className="text-left py-2">Employee</th>
+              {days.map((d) => (
+                <th key={d.toISOString()} className="text-right py-2">
+                  {d.toLocaleDateString(undefined, { weekday: "short", day: "numeric" })}
+                </th>
+              ))}
+              <th className="text-right py-2">Total</th>
+              <th className="text-left py-2 pl-3">Flags</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((r) => (
+              <tr key={r.employeeId} className="border-b border-white/10">
+                <td className="py-2">
+                  {r.employee ? `${r.employee.firstName} ${r.employee.lastName} (${r.employee.employeeId})` : r.employeeId}
+                </td>
+                {r.daily.map((h, i) => (
+                  <td key={i} className="py-2 text-right tabular-nums">
+                    {fmtHours(h)}
+                  </td>
+                ))}
+                <td className="py-2 text-right font-semibold tabular-nums">{r.total.toFixed(2)}</td>
+                <td className="py-2 pl-3 text-xs text-white/60">
+                  {r.open && <div>On shift</div>}
+                  {r.missedMeals.map((sh) => (
+                    <div key={sh.clockIn.id} className="text-red-300">
+                      No meal break · {((sh.end - sh.start) / 3_600_000).toFixed(1)} h shift{" "}
+                      {new Date(sh.start).toLocaleDateString(undefined, { weekday: "short" })}
+                    </div>
+                  ))}
+                  {r.orphans.map((o) => (
+                    <div key={o.event.id} className="text-red-300">
+                      {ORPHAN_LABELS[o.reason]} {new Date(o.event.ts).toLocaleString()}
+                    </div>
+                  ))}
+                </td>
+              </tr>
+            ))}
+            {rows.length === 0 && (
+              <tr>
+                <td className="py-3 text-white/60" colSpan={10}>
+                  No punches this week.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+/* ------------------------------ Export builder ---------------------------- */
+function downloadFile(name: string, content: string, mime: string) {
+  const a = document.createElement("a");
+  a.href = URL.createObjectURL(new Blob([content], { type: mime }));
+  a.download = name;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(a.href), 0);
+}
+
+const toDateInput = (d: Date) => toLocalInput(d.toISOString()).slice(0, 10);
+const fromDateInput = (v: string) => {
+  const [y, m, d] = v.split("-").map(Number);
+  return new Date(y, m - 1, d);
+};
+
+function ExportBuilder({
+  events,
+  employees,
+  mealRequiredAfterHours,
+  onExport,
+}: {
+  events: EventRecord[];
+  employees: Employee[];
+  mealRequiredAfterHours?: number;
+  onExport: (detail: string) => void;
+}) {
+  const [presetId, setPresetId] = useState(EXPORT_PRESETS[0].id);
+  const [level, setLevel] = useState<RowLevel>("event");
+  const [picked, setPicked] = useState<Record<RowLevel, string[]>>(() => ({
+    event: columnsFor("event").map((c) => c.key),
+    shift: columnsFor("shift").map((c) => c.key),
+    employee: columnsFor("employee").map((c) => c.key),
+  }));
+  const [from, setFrom] = useState(() => toDateInput(startOfWeek(new Date())));
+  const [to, setTo] = useState(() => toDateInput(new Date()));
+  const [tz, setTz] = useState<TimeZoneMode>("local");
+
+  const preset = EXPORT_PRESETS.find((p) => p.id === presetId) || EXPORT_PRESETS[0];
+  const activeLevel = preset.fixed?.level || level;
+  const columns = columnsFor(activeLevel);
+
+  const toggleColumn = (key: string) => {
+    const cur = picked[activeLevel];
+    setPicked({ ...picked, [activeLevel]: cur.includes(key) ? cur.filter((k) => k !== key) : [...cur, key] });
+  };
+
+  const download = () => {
+    if (!from || !to || from > to) return alert("Choose a valid date range.");
+    if (!preset.fixed && picked[activeLevel].length === 0) return alert("Pick at least one column.");
+    const req = { preset, level: activeLevel, columns: picked[activeLevel], from: fromDateInput(from), to: fromDateInput(to), tz };
+    const { output, rowCount } = buildExport(req, events, employees, mealRequiredAfterHours);
+    downloadFile(`attendance-${preset.id}-${from}-to-${to}.${output.ext}`, output.content, output.mime);
+    onExport(`${preset.label}, ${rowCount} ${activeLevel} rows, ${from} to ${to} (${tz})`);
+  };
+
+  const field = "bg-black text-white border border-white/30 rounded-xl px-3 py-2";
+
+  return (
+    <div className="grid gap-3 text-sm">
+      <div className="grid sm:grid-cols-2 gap-3">
+        <label className="grid gap-1">
+          <span className="text-white/60">Format</span>
+          <select value={presetId} onChange={(e) => setPresetId(e.target.value)} className={field}>
+            {EXPORT_PRESETS.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="grid gap-1">
+          <span className="text-white/60">Rows</span>
+          <select
+            value={activeLevel}
+            disabled={!!preset.fixed}
+            onChange={(e) => setLevel(e.target.value as RowLevel)}
+            className={`${field} disabled:opacity-50`}
+          >
+            {(Object.keys(ROW_LEVEL_LABELS) as RowLevel[]).map((l) => (
+              <option key={l} value={l}>
+                {ROW_LEVEL_LABELS[l]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="grid gap-1">
+          <span className="text-white/60">From</span>
+          <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={field} />
+        </label>
+        <label className="grid gap-1">
+          <span className="text-white/60">To</span>
+          <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={field} />
+        </label>
+      </div>
+      <div className="flex gap-4">
+        <span className="text-white/60">Times</span>
+        {(["local", "utc"] as const).map((m) => (
+          <label key={m} className="flex items-center gap-1">
+            <input type="radio" checked={tz === m} onChange={() => setTz(m)} /> {m === "local" ? "Local time" : "UTC"}
+          </label>
+        ))}
+      </div>
+      {preset.fixed ? (
+        <div className="text-white/60">
+          Fixed layout: {preset.fixed.columns.map((c) => c.header).join(", ")}. Overtime is hours over{" "}
+          {OVERTIME_WEEKLY_HOURS} per Monday-start week.
+        </div>
+      ) : (
+        <div className="flex flex-wrap gap-x-4 gap-y-1">
+          {columns.map((c) => (
+            <label key={c.key} className="flex items-center gap-1">
+              <input type="checkbox" checked={picked[activeLevel].includes(c.key)} onChange={() => toggleColumn(c.key)} />
+              {c.label}
+            </label>
+          ))}
+        </div>
+      )}
+      <div>
+        <button onClick={download} className="px-4 py-2 rounded-xl border border-white/40 bg-white text-black">
+          Download
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/* ---------------------------- Face match review --------------------------- */
+const FACE_VERDICT_LABELS = { "same-person": "confirmed", "different-person": "not them" } as const;
+
+function FaceReview({
+  db,
+  save,
+  actor,
+  events,
+  siteId,
+}: {
+  db: DB;
+  save: SaveDB;
+  actor: ManagerAccount;
+  events: EventRecord[];
+  siteId: string;
+}) {
+  const [enrolling, setEnrolling] = useState<Employee | null>(null);
+  const queue = liveEvents(events).filter((e) => e.faceMatch?.result === "low" && !e.faceMatch.review);
+  const missing = db.employees.filter(
+    (e) => e.orgId === db.device.orgId && inSite(e.siteId, siteId) && e.status === "active" && !e.faceTemplate
+  );
+  const byId = new Map(db.employees.map((e) => [e.id, e]));
+
+  const review = async (ev: EventRecord, verdict: "same-person" | "different-person") => {
+    const faceMatch = await sealFaceMatch(ev, { ...ev.faceMatch!, review: { at: nowISO(), by: actor.username, verdict } });
+    const who = resolveEmpName(ev.employeeId, db.employees);
+    save((cur) => {
+      const next = { ...cur, events: cur.events.map((e) => (e.id === ev.id ? { ...e, faceMatch } : e)) };
+      return audit(next, actor.username, "face-review", `${who}, ${ev.type} ${ev.ts}: ${FACE_VERDICT_LABELS[verdict]}`);
+    });
+  };
+
+  // photos registered before face matching (or imported) have no template yet; build it from the stored photo
+  const prepare = async (emp: Employee) => {
+    try {
+      const photo = emp.profileSelfie && (await decryptField(emp.profileSelfie));
+      const template = await profileTemplate(photo || undefined);
+      if (!template) return setEnrolling(emp);
+      const { faceTemplate } = await encryptEmployee(db.device.keyring, { ...emp, faceTemplate: template });
+      save((cur) => ({ ...cur, employees: cur.employees.map((x) => (x.id === emp.id ? { ...x, faceTemplate } : x)) }));
+    } catch (e: any) {
+      alert(`Unable to read the profile photo: ${e?.message || e}`);
+    }
+  };
+
+  const enroll = async (emp: Employee, photo: string) => {
+    const faceTemplate = await profileTemplate(photo);
+    if (!faceTemplate) return alert("Couldn't read a face from that photo. Try again with better light.");
+    const updated = await encryptEmployee(db.device.keyring, { ...emp, profileSelfie: photo, faceTemplate });
+    save((cur) => {
+      const next = { ...cur, employees: cur.employees.map((x) => (x.id === emp.id ? updated : x)) };
+      return audit(next, actor.username, "employee-edit", `${fullName(emp)} (${emp.employeeId}): profile photo`);
+    });
+    setEnrolling(null);
+  };
+
+  return (
+    <div className="grid gap-4 text-sm">
+      {missing.length > 0 && (
+        <div className="rounded-2xl border border-red-300/40 p-3">
+          <div className="text-red-300 mb-2">
+            {missing.length} active employee(s) have no profile photo to match punches against. Enroll one:
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {missing.map((e) => (
+              <button
+                key={e.id}
+                onClick={() => (e.profileSelfie ? prepare(e) : setEnrolling(e))}
+                className="px-2 py-1 rounded-lg border border-white/30 text-xs"
+              >
+                {fullName(e)} ({e.employeeId}){e.profileSelfie ? " · use photo on file" : ""}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+      {enrolling && <ProfilePhotoCapture emp={enrolling} onCapture={(p) => enroll(enrolling, p)} onCancel={() => setEnrolling(null)} />}
+      <div className="space-y-3 max-h-[480px] overflow-auto pr-1">
+        {queue.map((e) => {
+          const emp = byId.get(e.employeeId);
+          return (
+            <div key={e.id} className="flex items-center gap-3 rounded-2xl border border-white/15 p-3">
+              <SecretImage value={emp?.profileSelfie} className="w-16 h-16 object-cover rounded-lg border border-white/20" />
+              <SelfieThumb id={e.id} selfie={e.selfie} className="w-16 h-16 rounded-lg border border-white/20" />
+              <div className="min-w-0">
+                <div className="font-semibold truncate">
+                  {resolveEmpName(e.employeeId, db.employees)} · <span className="uppercase">{e.type}</span>
+                </div>
+                <div className="text-xs text-white/60">
+                  {new Date(e.ts).toLocaleString()} · match score{" "}
+                  <span className="text-red-300">{Math.round((e.faceMatch!.score ?? 0) * 100)}%</span>
+                  {!e.selfie && " · selfie already purged"}
+                </div>
+              </div>
+              <div className="ml-auto flex gap-2">
+                <button onClick={() => review(e, "same-person")} className="px-3 py-2 rounded-xl border border-white/40">
+                  Same person
+                </button>
+                <button onClick={() => review(e, "different-person")} className="px-3 py-2 rounded-xl border border-white/40 bg-white text-black">
+                  Not them
+                </button>
+              </div>
+            </div>
+          );
+        })}
+        {queue.length === 0 && <div className="text-white/60">No low-confidence punches to review.</div>}
+      </div>
+    </div>
+  );
+}
+
+function ProfilePhotoCapture({
+  emp,
+  onCapture,
+  onCancel,
+}: {
+  emp: Employee;
+  onCapture: (photo: string) => Promise<void>;
+  onCancel: () => void;
+}) {
+  const cam = useCamera();
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    cam.start();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const take = async () => {
+    const photo = cam.capture();
+    if (!photo) return;
+    setBusy(true);
+    await onCapture(photo).finally(() => setBusy(false));
+  };
+
+  return (
+    <div className="rounded-2xl border border-white/20 p-3 grid gap-3 max-w-sm">
+      <div>Profile photo for {fullName(emp)} — face the camera, good light, no hat or sunglasses.</div>
+      {cam.active ? (
+        <video ref={cam.videoRef} className="w-full aspect-square rounded-2xl border border-white/30 object-cover" />
+      ) : (
+        <div className="w-full aspect-square rounded-2xl border border-white/30 grid place-content-center text-white/60">
+          {cam.error || "Starting camera…"}
+        </div>
+      )}
+      <div className="flex gap-2">
+        <button onClick={take} disabled={!cam.active || busy} className="px-4 py-2 rounded-xl border border-white/40 bg-white text-black disabled:opacity-40">
+          {busy ? "Saving…" : "Capture"}
+        </button>
+        <button onClick={onCancel} className="px-4 py-2 rounded-xl border border-white/40">
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/* ------------------------------- Site picker ------------------------------ */
+function SitePicker({ sites, value, onChange }: { sites: SiteOption[]; value: string; onChange: (id: string) => void }) {
+  return (
+    <label className="flex items-center gap-2 text-sm">
+      <span className="text-white/60">Site</span>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="bg-black text-white border border-white/30 rounded-xl px-3 py-2"
+      >
+        <option value={ALL_SITES}>All sites</option>
+        {sites.map((x) => (
+          <option key={x.id} value={x.id}>
+            {x.name === x.id ? x.id : `${x.name} (${x.id})`}
+            {x.registered ? "" : " · unregistered"}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+function SiteRollup({ db, onPick }: { db: DB; onPick: (siteId: string) => void }) {
+  const rows = siteRollup(db);
+  const total = (k: "activeEmployees" | "pending" | "onSite" | "punchesToday" | "openExceptions") =>
+    rows.reduce((n, r) => n + r[k], 0);
+  return (
+    <div className="overflow-auto">
+      <table className="w-full text-sm">
+        <thead className="text-white/70">
+          <tr className="border-b border-white/20">
+            <th className="text-left py-2">Site</th>
+            <th className="text-left py-2">Local time</th>
+            <th className="text-right py-2">Active</th>
+            <th className="text-right py-2">Pending</th>
+            <th className="text-right py-2">On site</th>
+            <th className="text-right py-2">Punches today</th>
+            <th className="text-right py-2">Exceptions</th>
+            <th className="text-left py-2 pl-4">Last punch</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((r) => (
+            <tr key={r.site.id} onClick={() => onPick(r.site.id)} className="border-b border-white/10 cursor-pointer hover:bg-white/5">
+              <td className="py-2 font-semibold">
+                {r.site.name}
+                {r.site.name !== r.site.id && <span className="text-white/50 font-normal"> ({r.site.id})</span>}
+              </td>
+              <td className="py-2 text-white/60">
+                {r.site.timeZone
+                  ? new Date().toLocaleTimeString([], { timeZone: r.site.timeZone, hour: "2-digit", minute: "2-digit" })
+                  : "—"}
+              </td>
+              <td className="py-2 text-right">{r.activeEmployees}</td>
+              <td className="py-2 text-right">{r.pending}</td>
+              <td className="py-2 text-right">{r.onSite}</td>
+              <td className="py-2 text-right">{r.punchesToday}</td>
+              <td className={`py-2 text-right ${r.openExceptions ? "text-red-300" : ""}`}>{r.openExceptions}</td>
+              <td className="py-2 pl-4 text-white/60">{r.lastPunch ? formatInSite(r.lastPunch, r.site.timeZone) : "—"}</td>
+            </tr>
+          ))}
+          <tr className="font-semibold">
+            <td className="py-2" colSpan={2}>
+              {rows.length} site(s)
+            </td>
+            <td className="py-2 text-right">{total("activeEmployees")}</td>
+            <td className="py-2 text-right">{total("pending")}</td>
+            <td className="py-2 text-right">{total("onSite")}</td>
+            <td className="py-2 text-right">{total("punchesToday")}</td>
+            <td className="py-2 text-right">{total("openExceptions")}</td>
+            <td />
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+interface Drill {
+  startedAt: string;
+  roster: OnSite[]; // frozen when the drill starts, so people who clock out stay on the list
+  marks: Record<string, string>; // employee id -> accounted-for time
+}
+
+function RollCallPanel({ db, save, actor }: { db: DB; save: SaveDB; actor: ManagerAccount }) {
+  const siteId = db.device.siteId;
+  const [now, setNow] = useState(Date.now());
+  const [drill, setDrill] = useState<Drill | null>(null);
+
+  useEffect(() => {
+    const t = setInterval(() => setNow(Date.now()), 30_000);
+    return () => clearInterval(t);
+  }, []);
+
+  const live = onSiteNow(db.employees, db.events, siteId, now);
+  const roster = drill?.roster || live;
+  const entries = roster.map((o) => ({
+    employeeId: o.employee.id,
+    status: o.status,
+    clockedInAt: o.clockedInAt,
+    accountedAt: drill?.marks[o.employee.id],
+  }));
+  const accounted = entries.filter((e) => e.accountedAt).length;
+  const history = db.rollCalls.filter((r) => r.siteId === siteId).reverse();
+
+  const toggle = (id: string) => {
+    if (!drill) return;
+    const marks = { ...drill.marks };
+    if (marks[id]) delete marks[id];
+    else marks[id] = nowISO();
+    setDrill({ ...drill, marks });
+  };
+
+  const print = (call: Pick<RollCall, "siteId" | "entries">, title?: string) => {
+    try {
+      printRollCall(call, db.employees, title);
+    } catch (e: any) {
+      alert(e?.message || e);
+    }
+  };
+
+  const exportCSV = (call: Pick<RollCall, "entries">, at: string) =>
+    downloadFile(`roll-call-${siteId}-${at.slice(0, 16).replace(/[:T]/g, "-")}.csv`, rollCallCSV(call, db.employees), "text/csv;charset=utf-8");
+
+  const saveDrill = () => {
+    if (!drill) return;
+    const missing = entries.length - accounted;
+    if (missing && !confirm(`${missing} person(s) not accounted for. Save the roll call anyway?`)) return;
+    const record: RollCall = {
+      id: uid(),
+      orgId: db.device.orgId,
+      siteId,
+      startedAt: drill.startedAt,
+      savedAt: nowISO(),
+      by: actor.username,
+      entries,
+    };
+    const next = { ...db, rollCalls: [...db.rollCalls, record] };
+    save(audit(next, actor.username, "roll-call", `${siteId}: ${accounted}/${entries.length} accounted for`));
+    setDrill(null);
+  };
+
+  const btn = "px-3 py-1 rounded-xl border border-white/40";
+
+  return (
+    <div className="grid gap-3 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-semibold">
+          {roster.length} on site{drill && ` · ${accounted} accounted for · ${roster.length - accounted} missing`}
+        </span>
+        <div className="ml-auto flex flex-wrap gap-2">
+          {drill ? (
+            <>
+              <button onClick={saveDrill} className={`${btn} bg-white text-black`}>
+                Save roll call
+              </button>
+              <button onClick={() => confirm("Discard this roll call?") && setDrill(null)} className={btn}>
+                Discard
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={() => setDrill({ startedAt: nowISO(), roster: live, marks: {} })}
+              disabled={live.length === 0}
+              className={`${btn} bg-white text-black disabled:opacity-40`}
+            >
+              Start roll call
+            </button>
+          )}
+          <button onClick={() => print({ siteId, entries })} className={btn}>
+            Print
+          </button>
+          <button onClick={() => exportCSV({ entries }, nowISO())} className={btn}>
+            Export CSV
+          </button>
+        </div>
+      </div>
+      <div className="max-h-[420px] overflow-auto">
+        <table className="w-full text-sm">
+          <thead className="text-white/70">
+            <tr className="border-b border-white/20">
+              {drill && <th className="text-left py-2">Safe</th>}
+              <th className="text-left py-2">Name</th>
+              <th className="text-left py-2">Employee ID</th>
+              <th className="text-left py-2">Status</th>
+              <th className="text-left py-2">Clocked in</th>
+            </tr>
+          </thead>
+          <tbody>
+            {roster.map((o) => (
+              <tr
+                key={o.employee.id}
+                onClick={() => toggle(o.employee.id)}
+                className={`border-b border-white/10 ${drill ? "cursor-pointer" : ""} ${drill?.marks[o.employee.id] ? "text-white/50" : ""}`}
+              >
+                {drill && (
+                  <td className="py-2">
+                    <input type="checkbox" readOnly checked={!!drill.marks[o.employee.id]} />
+                  </td>
+                )}
+                <td className="py-2 font-semibold">
+                  {o.employee.firstName} {o.employee.lastName}
+                </td>
+                <td className="py-2">{o.employee.employeeId}</td>
+                <td className="py-2">{ON_SITE_LABELS[o.status]}</td>
+                <td className="py-2">
+                  {fmtClock(o.clockedInAt)} <span className="text-white/60">({sinceLabel(o.clockedInAt, now)} ago)</span>
+                </td>
+              </tr>
+            ))}
+            {roster.length === 0 && (
+              <tr>
+                <td className="py-3 text-white/60" colSpan={5}>
+                  Nobody is clocked in at {siteId}.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+      {history.length > 0 && (
+        <details>
+          <summary className="cursor-pointer text-white/60">Saved roll calls ({history.length})</summary>
+          <div className="mt-2 space-y-1">
+            {history.map((r) => (
+              <div key={r.id} className="flex items-center gap-3">
+                <span>{new Date(r.savedAt).toLocaleString()}</span>
+                <span className="text-white/60">
+                  {r.by} · {r.entries.filter((e) => e.accountedAt).length}/{r.entries.length} accounted for
+                </span>
+                <button onClick={() => print(r, `Roll call ${new Date(r.savedAt).toLocaleString()}`)} className="ml-auto px-2 py-1 rounded-lg border border-white/30 text-xs">
+                  Print
+                </button>
+                <button onClick={() => exportCSV(r, r.savedAt)} className="px-2 py-1 rounded-lg border border-white/30 text-xs">
+                  CSV
+                </button>
+              </div>
+            ))}
+          </div>
+        </details>
+      )}
+    </div>
+  );
+}
+
+const STATUS_LABELS: Record<AttendanceStatus, string> = {
+  "on-time": "On time",
+  late: "Late",
+  "no-show": "No-show",
+  upcoming: "Not started",
+};
+
+const fmtClock = (t: number | string) => new Date(t).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+
+function DailyAttendance({ db, siteId }: { db: DB; siteId: string }) {
+  const [day, setDay] = useState(() => toDateInput(new Date()));
+  const grace = graceOf(db.device);
+  const rules = db.schedules.filter((r) => r.orgId === db.device.orgId && inSite(r.siteId, siteId));
+  const rows = day ? dailyAttendance(rules, liveEvents(db.events), fromDateInput(day), grace) : [];
+  const noShows = rows.filter((r) => r.status === "no-show").length;
+  const late = rows.filter((r) => r.status === "late").length;
+
+  return (
+    <div className="grid gap-3 text-sm">
+      <div className="flex flex-wrap items-center gap-3">
+        <input
+          type="date"
+          value={day}
+          onChange={(e) => setDay(e.target.value)}
+          className="bg-black text-white border border-white/30 rounded-xl px-3 py-1"
+        />
+        <span className="text-white/60">
+          {rows.length} scheduled · <span className={noShows ? "text-red-300" : ""}>{noShows} no-show</span> ·{" "}
+          <span className={late ? "text-red-300" : ""}>{late} late</span> · grace {grace.lateMinutes} min
+        </span>
+      </div>
+      <div className="max-h-[360px] overflow-auto">
+        <table className="w-full text-sm">
+          <thead className="text-white/70">
+            <tr className="border-b border-white/20">
+              <th className="text-left py-2">Employee</th>
+              <th className="text-left py-2">Scheduled</th>
+              <th className="text-left py-2">Clock in</th>
+              <th className="text-left py-2">Clock out</th>
+              <th className="text-left py-2">Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((r) => (
+              <tr key={r.occurrence.rule.id} className="border-b border-white/10">
+                <td className="py-2">
+                  {resolveEmpName(r.occurrence.rule.employeeId, db.employees)}
+                  {siteId === ALL_SITES && <span className="text-white/50"> · {r.occurrence.rule.siteId}</span>}
+                </td>
+                <td className="py-2">
+                  {fmtClock(r.occurrence.start)}–{fmtClock(r.occurrence.end)}
+                </td>
+                <td className="py-2">{r.clockIn ? fmtClock(r.clockIn.ts) : "—"}</td>
+                <td className="py-2">
+                  {r.clockOut ? fmtClock(r.clockOut.ts) : "—"}
+                  {r.leftEarlyMinutes > 0 && <span className="ml-2 text-red-300">left {r.leftEarlyMinutes} min early</span>}
+                </td>
+                <td className={`py-2 ${r.status === "late" || r.status === "no-show" ? "text-red-300" : ""}`}>
+                  {STATUS_LABELS[r.status]}
+                  {r.status === "late" && ` (${r.lateMinutes} min)`}
+                </td>
+              </tr>
+            ))}
+            {rows.length === 0 && (
+              <tr>
+                <td className="py-3 text-white/60" colSpan={5}>
+                  Nobody is scheduled at {siteLabel(db, siteId)} on this day.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+function ScheduleEditor({
+  db,
+  save,
+  actor,
+  siteId,
+}: {
+  db: DB;
+  save: SaveDB;
+  actor: ManagerAccount;
+  siteId: string;
+}) {
+  const { orgId } = db.device;
+  const siteEmps = db.employees.filter((e) => e.siteId === siteId && e.status === "active");
+  const [employeeId, setEmployeeId] = useState("");
+  const [repeat, setRepeat] = useState<"weekly" | "once">("weekly");
+  const [weekdays, setWeekdays] = useState<number[]>([1, 2, 3, 4, 5]);
+  const [date, setDate] = useState(() => toDateInput(new Date()));
+  const [validFrom, setValidFrom] = useState("");
+  const [validUntil, setValidUntil] = useState("");
+  const [start, setStart] = useState("09:00");
+  const [end, setEnd] = useState("17:00");
+
+  const rules = db.schedules.filter((r) => r.orgId === orgId && r.siteId === siteId);
+  const name = (id: string) => resolveEmpName(id, db.employees);
+
+  const toggleDay = (d: number) => setWeekdays(weekdays.includes(d) ? weekdays.filter((x) => x !== d) : [...weekdays, d].sort((a, b) => a - b));
+
+  const add = () => {
+    if (!employeeId) return alert("Choose an employee.");
+    if (!validTime(start) || !validTime(end)) return alert("Enter start and end times.");
+    if (repeat === "weekly" && weekdays.length === 0) return alert("Pick at least one weekday.");
+    if (repeat === "once" && !date) return alert("Choose a date.");
+    if (repeat === "weekly" && validFrom && validUntil && validFrom > validUntil) return alert("The end date is before the start date.");
+    const rule: ScheduleRule = {
+      id: uid(),
+      orgId,
+      siteId,
+      employeeId,
+      ...(repeat === "once"
+        ? { date }
+        : { weekdays, validFrom: validFrom || undefined, validUntil: validUntil || undefined }),
+      start,
+      end,
+      createdAt: nowISO(),
+    };
+    const next = { ...db, schedules: [...db.schedules, rule] };
+    save(audit(next, actor.username, "schedule-change", `added ${name(employeeId)}: ${describeRule(rule)}`));
+  };
+
+  const remove = (rule: ScheduleRule) => {
+    if (!confirm(`Remove ${name(rule.employeeId)}'s shift ${describeRule(rule)}?`)) return;
+    const next = { ...db, schedules: db.schedules.filter((r) => r.id !== rule.id) };
+    save(audit(next, actor.username, "schedule-change", `removed ${name(rule.employeeId)}: ${describeRule(rule)}`));
+  };
+
+  const field = "bg-black text-white border border-white/30 rounded-xl px-3 py-1";
+
+  if (siteId === ALL_SITES) return <div className="text-sm text-white/60">Pick a site to edit its schedules.</div>;
+
+  return (
+    <div className="grid gap-3 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <select value={employeeId} onChange={(e) => setEmployeeId(e.target.value)} className={field}>
+          <option value="">Employee…</option>
+          {siteEmps.map((e) => (
+            <option key={e.id} value={e.id}>
+              {e.firstName} {e.lastName} ({e.employeeId})
+            </option>
+          ))}
+        </select>
+        <select value={repeat} onChange={(e) => setRepeat(e.target.value as "weekly" | "once")} className={field}>
+          <option value="weekly">Every week</option>
+          <option value="once">One day</option>
+        </select>
+        <input type="time" value={start} onChange={(e) => setStart(e.target.value)} className={field} />
+        <span>to</span>
+        <input type="time" value={end} onChange={(e) => setEnd(e.target.value)} className={field} />
+      </div>
+      {repeat === "weekly" ? (
+        <div className="flex flex-wrap items-center gap-3">
+          {WEEKDAY_LABELS.map((label, d) => (
+            <label key={d} className="flex items-center gap-1">
+              <input type="checkbox" checked={weekdays.includes(d)} onChange={() => toggleDay(d)} /> {label}
+            </label>
+          ))}
+          <span className="text-white/60">from</span>
+          <input type="date" value={validFrom} onChange={(e) => setValidFrom(e.target.value)} className={field} />
+          <span className="text-white/60">until</span>
+          <input type="date" value={validUntil} onChange={(e) => setValidUntil(e.target.value)} className={field} />
+        </div>
+      ) : (
+        <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className={`${field} w-fit`} />
+      )}
+      <div className="text-white/60">An end time before the start time runs past midnight.</div>
+      <div>
+        <button onClick={add} className="px-4 py-2 rounded-xl border border-white/40 bg-white text-black">
+          Add shift
+        </button>
+      </div>
+      <div className="max-h-[300px] overflow-auto space-y-1 pr-1">
+        {[...rules]
+          .sort((a, b) => name(a.employeeId).localeCompare(name(b.employeeId)) || a.start.localeCompare(b.start))
+          .map((r) => (
+            <div key={r.id} className="flex items-center gap-3 border-b border-white/10 py-1">
+              <span className="font-semibold">{name(r.employeeId)}</span>
+              <span className="text-white/60">{describeRule(r)}</span>
+              <button onClick={() => remove(r)} className="ml-auto px-2 py-1 rounded-lg border border-white/30 text-xs">
+                Remove
+              </button>
+            </div>
+          ))}
+        {rules.length === 0 && <div className="text-white/60">No shifts scheduled at this site.</div>}
+      </div>
+    </div>
+  );
+}
+
+function RosterImport({
+  db,
+  save,
+  actor,
+  siteId,
+}: {
+  db: DB;
+  save: SaveDB;
+  actor: ManagerAccount;
+  siteId: string;
+}) {
+  const [file, setFile] = useState<{ name: string; roster: Roster } | null>(null);
+  const [mapping, setMapping] = useState<RosterMapping>({});
+  const [result, setResult] = useState<{ summary: string; name: string; report?: string } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const { orgId } = db.device;
+  const scope = useMemo(() => ({ orgId, siteId }), [orgId, siteId]);
+  const plan = useMemo(
+    () => (file ? planImport(file.roster, mapping, db.employees, scope) : []),
+    [file, mapping, db.employees, scope]
+  );
+  const count = (a: PlannedRow["action"]) => plan.filter((p) => p.action === a).length;
+
+  const load = async (f: File | undefined) => {
+    if (!f) return;
+    try {
+      const roster = readRoster(await f.text());
+      if (!roster.rows.length) return alert("The file has a header but no employee rows.");
+      setFile({ name: f.name, roster });
+      setMapping(guessMapping(roster.headers));
+      setResult(null);
+    } catch (e: any) {
+      alert(`Unable to read ${f.name}: ${e?.message || e}`);
+    }
+  };
+
+  const setColumn = (field: RosterField, col: string) => {
+    const next = { ...mapping };
+    if (col === "") delete next[field];
+    else next[field] = Number(col);
+    setMapping(next);
+  };
+
+  const runImport = async () => {
+    if (!file) return;
+    const [created, updated, rejected] = [count("create"), count("update"), count("reject")];
+    if (!created && !updated) return alert("No rows can be imported. Check the column mapping and the error report.");
+    const reject = rejected ? ` ${rejected} row(s) will be skipped.` : "";
+    if (!confirm(`Create ${created} and update ${updated} employee(s) at site ${scope.siteId} as active?${reject}`)) return;
+    setBusy(true);
+    try {
+      const imported = await applyImport(db.employees, plan, scope, db.device.keyring);
+      const summary = `${created} created, ${updated} updated, ${rejected} rejected`;
+      // only the rows the import wrote go onto the latest state
+      const unchanged = new Set(db.employees);
+      const written = new Map(imported.filter((e) => !unchanged.has(e)).map((e) => [e.id, e]));
+      save((cur) => {
+        const employees = cur.employees.map((e) => written.get(e.id) || e);
+        const known = new Set(employees.map((e) => e.id));
+        employees.push(...[...written.values()].filter((e) => !known.has(e.id)));
+        return audit({ ...cur, employees }, actor.username, "employee-import", `${file.name}: ${summary}, site ${scope.siteId}`);
+      });
+      setResult({ summary, name: file.name, report: rejected ? rejectReport(file.roster, plan) : undefined });
+      setFile(null);
+    } catch (e: any) {
+      alert(`Import failed: ${e?.message || e}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const downloadReport = (name: string, report: string) =>
+    downloadFile(`${name.replace(/\.[^.]+$/, "")}-rejected.csv`, report, "text/csv;charset=utf-8");
+
+  const field = "bg-black text-white border border-white/30 rounded-xl px-3 py-2";
+  const badge: Record<PlannedRow["action"], string> = { create: "New", update: "Update", reject: "Rejected" };
+
+  if (siteId === ALL_SITES) return <div className="text-sm text-white/60">Pick a site to import a roster into.</div>;
+
+  return (
+    <div className="grid gap-3 text-sm">
+      <div className="text-white/60">
+        CSV with a header row. Employees are matched by Employee ID at {siteLabel(db, siteId)}; matches are updated, the
+        rest created, all as active.
+      </div>
+      <input type="file" accept=".csv,text/csv" onChange={(e) => load(e.target.files?.[0])} className="text-sm" />
+      {result && (
+        <div className="flex items-center gap-3">
+          <span>
+            Imported {result.name}: {result.summary}.
+          </span>
+          {result.report && (
+            <button onClick={() => downloadReport(result.name, result.report!)} className="px-3 py-1 rounded-xl border border-white/40">
+              Download error report
+            </button>
+          )}
+        </div>
+      )}
+      {file && (
+        <>
+          <div className="grid sm:grid-cols-2 lg:grid-cols-4 gap-3">
+            {ROSTER_FIELDS.map((f) => (
+              <label key={f.field} className="grid gap-1">
+                <span className="text-white/60">{f.label}</span>
+                <select value={mapping[f.field] ?? ""} onChange={(e) => setColumn(f.field, e.target.value)} className={field}>
+                  <option value="">— not in file —</option>
+                  {file.roster.headers.map((h, i) => (
+                    <option key={i} value={i}>
+                      {h || `Column ${i + 1}`}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <span>
+              {file.name}: {count("create")} new · {count("update")} update · {count("reject")} rejected
+            </span>
+            {count("reject") > 0 && (
+              <button
+                onClick={() => downloadReport(file.name, rejectReport(file.roster, plan))}
+                className="px-3 py-1 rounded-xl border border-white/40"
+              >
+                Download error report
+              </button>
+            )}
+          </div>
+          <div className="max-h-[360px] overflow-auto">
+            <table className="w-full text-sm">
+              <thead className="text-white/70">
+                <tr className="border-b border-white/20">
+                  <th className="text-left py-2">Row</th>
+                  <th className="text-left py-2">Result</th>
+                  <th className="text-left py-2">Employee ID</th>
+                  <th className="text-left py-2">Name</th>
+                  <th className="text-left py-2">Phone</th>
+                  <th className="text-left py-2">Card</th>
+                  <th className="text-left py-2">Problems</th>
+                </tr>
+              </thead>
+              <tbody>
+                {plan.map((p) => (
+                  <tr key={p.line} className={`border-b border-white/10 ${p.action === "reject" ? "text-red-300" : ""}`}>
+                    <td className="py-2">{p.line}</td>
+                    <td className="py-2">{badge[p.action]}</td>
+                    <td className="py-2">{p.values.employeeId}</td>
+                    <td className="py-2">
+                      {p.values.firstName} {p.values.lastName}
+                    </td>
+                    <td className="py-2">{p.values.phone}</td>
+                    <td className="py-2">{p.values.badgeId}</td>
+                    <td className="py-2">{p.errors.join("; ")}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={runImport}
+              disabled={busy}
+              className="px-4 py-2 rounded-xl border border-white/40 bg-white text-black disabled:opacity-40"
+            >
+              {busy ? "Importing…" : `Import ${count("create") + count("update")} employee(s)`}
+            </button>
+            <button onClick={() => setFile(null)} className="px-4 py-2 rounded-xl border border-white/40">
+              Cancel
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+/* ------------------------------ Site registry ----------------------------- */
+function SiteRegistry({ db, save, actor }: { db: DB; save: SaveDB; actor: ManagerAccount }) {
+  const blank = { siteId: "", name: "", timeZone: "", address: "" };
+  const [form, setForm] = useState<typeof blank & { id?: string }>(blank);
+  const orgId = db.device.orgId;
+  const registered = db.sites.filter((x) => x.orgId === orgId).sort((a, b) => a.name.localeCompare(b.name));
+  const unregistered = siteOptions(db).filter((x) => !x.registered);
+  const zones = useMemo(timeZones, []);
+
+  const submit = () => {
+    const siteId = form.siteId.trim();
+    const timeZone = form.timeZone.trim();
+    if (!validSiteId(siteId)) return alert("Site ID: 1-40 letters, digits, dot, dash or underscore.");
+    if (registered.some((x) => x.siteId === siteId && x.id !== form.id)) return alert(`${siteId} is already registered.`);
+    if (timeZone && !validTimeZone(timeZone)) return alert(`${timeZone} is not a known time zone.`);
+    const fields = { siteId, name: form.name.trim() || siteId, timeZone: timeZone || undefined, address: form.address.trim() || undefined };
+    const existing = form.id ? db.sites.find((x) => x.id === form.id) : undefined;
+    if (existing && existing.siteId !== siteId) return alert("A site's ID can't change once registered.");
+    const sites = existing
+      ? db.sites.map((x) => (x.id === existing.id ? { ...x, ...fields } : x))
+      : [...db.sites, { id: uid(), orgId, ...fields, createdAt: nowISO() }];
+    save(audit({ ...db, sites }, actor.username, "site-change", `${existing ? "updated" : "added"} ${siteId}`));
+    setForm(blank);
+  };
+
+  const remove = (site: Site) => {
+    const inUse = db.employees.some((e) => e.orgId === orgId && e.siteId === site.siteId);
+    const warning = inUse ? " Employees are still assigned to it; it will show as unregistered." : "";
+    if (!confirm(`Remove ${site.name} (${site.siteId}) from the registry?${warning}`)) return;
+    const next = { ...db, sites: db.sites.filter((x) => x.id !== site.id) };
+    save(audit(next, actor.username, "site-change", `removed ${site.siteId}`));
+  };
+
+  const field = "bg-black text-white border border-white/30 rounded-xl px-3 py-2";
+
+  if (!orgId) return <div className="text-sm text-white/60">Enroll this device to manage the org's sites.</div>;
+
+  return (
+    <div className="grid gap-3 text-sm">
+      <div className="space-y-1">
+        {registered.map((x) => (
+          <div key={x.id} className="flex items-center gap-3 border-b border-white/10 py-1">
+            <div className="min-w-0">
+              <div className="font-semibold">
+                {x.name} <span className="text-white/50 font-normal">({x.siteId})</span>
+              </div>
+              <div className="text-xs text-white/60 truncate">
+                {x.timeZone || "Device time zone"}
+                {x.address && ` · ${x.address}`}
+              </div>
+            </div>
+            <button
+              onClick={() => setForm({ id: x.id, siteId: x.siteId, name: x.name, timeZone: x.timeZone || "", address: x.address || "" })}
+              className="ml-auto px-2 py-1 rounded-lg border border-white/30 text-xs"
+            >
+              Edit
+            </button>
+            <button onClick={() => remove(x)} className="px-2 py-1 rounded-lg border border-white/30 text-xs">
+              Remove
+            </button>
+          </div>
+        ))}
+        {registered.length === 0 && <div className="text-white/60">No sites registered for {orgId}.</div>}
+        {unregistered.length > 0 && (
+          <div className="text-white/60">
+            In use but unregistered:{" "}
+            {unregistered.map((x) => (
+              <button key={x.id} onClick={() => setForm({ ...blank, siteId: x.id })} className="underline mr-2">
+                {x.id}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <input
+          value={form.siteId}
+          disabled={!!form.id}
+          onChange={(e) => setForm({ ...form, siteId: e.target.value })}
+          placeholder="Site ID (e.g. store-12)"
+          className={`${field} disabled:opacity-50`}
+        />
+        <input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} placeholder="Name" className={field} />
+        <input
+          value={form.timeZone}
+          onChange={(e) => setForm({ ...form, timeZone: e.target.value })}
+          placeholder="Time zone (e.g. America/Chicago)"
+          list="site-time-zones"
+          className={field}
+        />
+        <datalist id="site-time-zones">
+          {zones.map((z) => (
+            <option key={z} value={z} />
+          ))}
+        </datalist>
+        <input value={form.address} onChange={(e) => setForm({ ...form, address: e.target.value })} placeholder="Address" className={field} />
+      </div>
+      <div className="flex gap-2">
+        <button onClick={submit} className="px-4 py-2 rounded-xl border border-white/40 bg-white text-black">
+          {form.id ? "Save site" : "Add site"}
+        </button>
+        {(form.id || form.siteId) && (
+          <button onClick={() => setForm(blank)} className="px-4 py-2 rounded-xl border border-white/40">
+            Cancel
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/* ----------------------------- Settings View ------------------------------ */
+function StoragePanel({ db }: { db: DB }) {
+  const usage = useStorageUsage(db);
+  const [persisted, setPersisted] = useState<boolean>();
+  const ratio = usage.quota ? (usage.usage || 0) / usage.quota : 0;
+
+  const persist = async () => {
+    const granted = await navigator.storage.persist().catch(() => false);
+    setPersisted(granted);
+    if (!granted) alert("The browser declined. Installing the kiosk as an app usually allows it.");
+  };
+
+  return (
+    <div className="text-sm space-y-2">
+      {usage.quota ? (
+        <>
+          <div>
+            {formatBytes(usage.usage || 0)} of {formatBytes(usage.quota)} used ({Math.round(ratio * 100)}%)
+          </div>
+          <div className="h-2 rounded-full bg-white/10 overflow-hidden">
+            <div className={`h-full ${nearQuota(usage) ? "bg-red-400" : "bg-white"}`} style={{ width: `${Math.min(100, ratio * 100)}%` }} />
+          </div>
+        </>
+      ) : (
+        <div className="text-white/60">This browser doesn't report its storage quota.</div>
+      )}
+      <div className="text-white/60">
+        Punch selfies: {usage.selfies} stored, {formatBytes(usage.selfieBytes)}
+      </div>
+      {nearQuota(usage) && (
+        <div className="text-red-300">
+          Over {Math.round(QUOTA_WARN_RATIO * 100)}% of the browser quota. Shorten the selfie retention or sync and clear old
+          data before punches can no longer be saved.
+        </div>
+      )}
+      {(persisted ?? usage.persisted) ? (
+        <div className="text-xs text-white/50">Storage is persistent: the browser won't evict it under pressure.</div>
+      ) : (
+        <button onClick={persist} className="px-4 py-2 rounded-xl border border-white/40">
+          Keep data when space runs low
+        </button>
+      )}
+    </div>
+  );
+}
+
+function RetentionSettings({ db, save, actor }: { db: DB; save: SaveDB; actor: ManagerAccount }) {
+  const classes = RETENTION_CLASSES.filter((c): c is Exclude<RetentionClass, "selfies"> => c !== "selfies");
+  const [days, setDays] = useState<Record<string, string>>(() =>
+    Object.fromEntries(classes.map((c) => [c, db.device.retention?.[c]?.toString() ?? ""]))
+  );
+  const held = db.employees.filter((e) => e.orgId === db.device.orgId && onHold(e));
+
+  const savePolicy = () => {
+    const retention: RetentionPolicy = {};
+    for (const c of classes) {
+      const v = days[c].trim();
+      if (!v) continue;
+      const n = Number(v);
+      if (!Number.isInteger(n) || n < 1) return alert(`${RETENTION_LABELS[c]}: enter a whole number of days, or leave it blank to keep.`);
+      retention[c] = n;
+    }
+    const detail = `retention ${classes.map((c) => `${c}=${retention[c] ?? "keep"}`).join(", ")}`;
+    save(audit({ ...db, device: { ...db.device, retention } }, actor.username, "settings-change", detail));
+  };
+
+  const purgeNow = () => {
+    const result = runRetention(db, "manual", actor.username);
+    if (!result) return alert("Nothing is due for purging.");
+    save(result.db);
+    alert(`Purged ${describePurge(result.record)}.`);
+  };
+
+  return (
+    <div className="text-sm">
+      <div className="text-white/60 mb-3">
+        Data past its retention is removed on this device once it has been synced. Leave a field blank to keep that data.
+        Employees on legal hold ({held.length}) are never purged.
+      </div>
+      <div className="grid md:grid-cols-2 gap-3">
+        {classes.map((c) => (
+          <label key={c} className="block">
+            {RETENTION_LABELS[c]} (days)
+            <input
+              type="number"
+              min={1}
+              value={days[c]}
+              placeholder="Keep"
+              onChange={(e) => setDays({ ...days, [c]: e.target.value })}
+              className="mt-1 w-full bg-black text-white border border-white/30 rounded-xl px-3 py-2"
+            />
+          </label>
+        ))}
+        <div className="text-white/60 self-end pb-2">
+          {RETENTION_LABELS.selfies}: {retentionDays(db.device, "selfies")} days (selfie retention under Connectivity &amp; Privacy)
+        </div>
+      </div>
+      <div className="flex gap-3 pt-3">
+        <button onClick={savePolicy} className="px-4 py-2 rounded-xl border border-white/40 bg-white text-black">
+          Save policy
+        </button>
+        <button onClick={purgeNow} className="px-4 py-2 rounded-xl border border-white/40">
+          Purge now
+        </button>
+      </div>
+      <div className="mt-4 font-semibold">Purge log</div>
+      <div className="space-y-2 max-h-[280px] overflow-auto pr-1 mt-2">
+        {[...db.purgeLog].reverse().map((r) => (
+          <div key={r.id} className="rounded-xl border border-white/15 p-2">
+            <div>
+              {new Date(r.at).toLocaleString()} · {r.trigger === "manual" ? `manual, ${r.by}` : "scheduled"}
+            </div>
+            <div className="text-xs text-white/60">
+              Removed {describePurge(r)}
+              {r.events && ` (seq ${r.events.fromSeq}–${r.events.toSeq})`}
+              {r.held > 0 && ` · ${r.held} kept for legal hold`}
+              {r.waiting > 0 && ` · ${r.waiting} waiting for sync`}
+            </div>
+          </div>
+        ))}
+        {db.purgeLog.length === 0 && <div className="text-white/60">No purges yet.</div>}
+      </div>
+    </div>
+  );
+}
+
+function SettingsView({
+  db,
+  save,
+  sync,
+  actor,
+}: {
+  db: DB;
+  save: SaveDB;
+  sync: SyncInfo;
+  actor: ManagerAccount;
+}) {
+  const [online, setOnline] = useState(db.device.online);
+  const [syncEndpoint, setSyncEndpoint] = useState(db.device.syncEndpoint || "");
+  const [requireSelfie, setRequireSelfie] = useState(db.device.requireSelfie);
+  const [requireStrongBiometric, setRequireStrongBiometric] = useState(db.device.requireStrongBiometric);
+  const [allowSoftwareAuthenticator, setAllowSoftwareAuthenticator] = useState(!!db.device.allowSoftwareAuthenticator);
+  const [pinPolicy, setPinPolicy] = useState(db.device.pinPolicy || "if-set");
+  const [invalidPunchPolicy, setInvalidPunchPolicy] = useState(db.device.invalidPunchPolicy || "warn");
+  const [livenessPolicy, setLivenessPolicy] = useState(db.device.livenessPolicy || "off");
+  const [mealAfter, setMealAfter] = useState(db.device.mealRequiredAfterHours ?? DEFAULT_MEAL_REQUIRED_AFTER_HOURS);
+  const [lateGrace, setLateGrace] = useState(db.device.lateGraceMinutes ?? DEFAULT_LATE_GRACE_MINUTES);
+  const [earlyGrace, setEarlyGrace] = useState(db.device.earlyGraceMinutes ?? DEFAULT_EARLY_GRACE_MINUTES);
+  const [faceThreshold, setFaceThreshold] = useState(db.device.faceMatchThreshold ?? DEFAULT_FACE_MATCH_THRESHOLD);
+  const [ret, setRet] = useState(db.device.selfieRetentionWeeks);
+  const [token, setToken] = useState("");
+  const [publicKey, setPublicKey] = useState(db.device.enrollmentPublicKey || "");
+  const [badgeKeyInput, setBadgeKeyInput] = useState("");
+
+  // every device change is logged with the names (not values) of the fields that changed
+  const saveDevice = (device: DeviceSettings) => {
+    const changed = (Object.keys({ ...db.device, ...device }) as (keyof DeviceSettings)[]).filter(
+      (k) => device[k] !== db.device[k]
+    );
+    if (changed.length === 0) return;
+    save(audit({ ...db, device }, actor.username, "settings-change", changed.join(", ")));
+  };
+
+  const savePublicKey = () => {
+    if (!validPublicKey(publicKey)) {
+      alert("That does not look like an enrollment public key (base64url SPKI).");
+      return;
+    }
+    saveDevice({ ...db.device, enrollmentPublicKey: publicKey.trim() });
+    alert("Enrollment key saved.");
+  };
+
+  const enroll = async () => {
+    if (!db.device.enrollmentPublicKey) {
+      alert("Save the organization's enrollment public key first.");
+      return;
+    }
+    let claims;
+    try {
+      claims = await verifyEnrollmentToken(db.device.enrollmentPublicKey, token);
+    } catch (e: any) {
+      alert(`Enrollment failed: ${e?.message || e}`);
+      return;
+    }
+    const device = {
+      ...db.device,
+      enrolled: true,
+      orgId: claims.orgId,
+      siteId: claims.siteId,
+      deviceId: newDeviceId(),
+      enrolledAt: nowISO(),
+    };
+    const detail = `${claims.orgId}/${claims.siteId} as ${device.deviceId}, token ${await tokenFingerprint(token)}`;
+    save((cur) => {
+      const sites = ensureSite(cur.sites, claims.orgId, claims.siteId, device.enrolledAt);
+      return audit({ ...cur, device: { ...cur.device, ...device }, sites }, actor.username, "device-enroll", detail);
+    });
+    setToken("");
+    alert("Device enrolled.");
+  };
+
+  // unsynced punches keep their original org/site/device stamp and stay queued
+  const revoke = () => {
+    const unsynced = sync.pending;
+    const warning = unsynced
+      ? `${unsynced} unsynced punch(es) stay on this device and will still sync under ${db.device.siteId}.`
+      : "All punches have synced.";
+    if (!confirm(`Revoke this device's enrollment? Punching stops until it is enrolled again. ${warning}`)) return;
+    const { orgId, siteId, deviceId, enrolledAt } = db.device;
+    const binding = { orgId, siteId, deviceId, enrolledAt, revokedAt: nowISO() };
+    const device = {
+      ...db.device,
+      enrolled: false,
+      orgId: "",
+      siteId: "",
+      deviceId: "",
+      enrolledAt: undefined,
+      bindings: [...(db.device.bindings || []), binding],
+    };
+    save(audit({ ...db, device }, actor.username, "device-revoke", `${orgId}/${siteId} (${deviceId}), ${unsynced} unsynced`));
+  };
+
+  const setBadgeKey = (badgeKey: string) => {
+    saveDevice({ ...db.device, badgeKey });
+    setBadgeKeyInput("");
+  };
+
+  const importBadgeKey = () => {
+    if (!/^[A-Za-z0-9_-]{43}$/.test(badgeKeyInput.trim())) {
+      alert("That does not look like a badge key (43 characters, base64url).");
+      return;
+    }
+    setBadgeKey(badgeKeyInput.trim());
+    alert("Badge key imported.");
+  };
+
+  const rotateBadgeKey = () => {
+    if (db.device.badgeKey && !confirm("Rotating the key invalidates every printed badge. Continue?")) return;
+    setBadgeKey(newBadgeKey());
+  };
+
+  const savePrefs = () => {
+    saveDevice({
+      ...db.device,
+      online,
+      requireSelfie,
+      requireStrongBiometric,
+      allowSoftwareAuthenticator,
+      pinPolicy,
+      invalidPunchPolicy,
+      livenessPolicy,
+      mealRequiredAfterHours: mealAfter,
+      lateGraceMinutes: lateGrace,
+      earlyGraceMinutes: earlyGrace,
+      faceMatchThreshold: faceThreshold,
+      selfieRetentionWeeks: ret,
+      syncEndpoint: syncEndpoint.trim(),
+    });
+    alert("Settings saved.");
+  };
+
+  const discardVault = () => {
+    if (!confirm("Permanently remove every encrypted phone number, address and selfie on this device?")) return;
+    save(audit(discardEncrypted(db), actor.username, "settings-change", "keyring discarded"));
+    alert("Encrypted data removed. Sign out and back in to set up a new key.");
+  };
+
+  const factoryReset = async () => {
+    if (!confirm("This will clear all local data and unenroll the device. Continue?")) return;
+    try {
+      await resetDB();
+    } catch (e: any) {
+      return alert(`Reset failed: ${e?.message || e}`);
+    }
+    window.location.reload();
+  };
+
+  return (
+    <div className="grid md:grid-cols-2 gap-8">
+      <Section title="Enrollment & Identity">
+        {db.device.enrolled ? (
+          <div className="grid gap-2 text-sm">
+            <div>
+              <span className="text-white/60">Org ID:</span> <span className="font-semibold">{db.device.orgId}</span>
+            </div>
             <div>
               <span className="text-white/60">Site ID:</span> <span className="font-semibold">{db.device.siteId}</span>
             </div>
             <div>
               <span className="text-white/60">Device ID:</span> <span className="font-semibold">{db.device.deviceId}</span>
             </div>
+            {db.device.enrolledAt && (
+              <div>
+                <span className="text-white/60">Enrolled:</span> {new Date(db.device.enrolledAt).toLocaleString()}
+              </div>
+            )}
             <div className="text-white/60">
-              To rebind, perform a Factory Reset (demo). In production, use portal-issued revoke & rebind tokens.
+              To move this device to another site, revoke it and enroll with a new token. Unsynced punches are kept.
+            </div>
+            <div>
+              <button onClick={revoke} className="px-4 py-2 rounded-xl border border-white/40">
+                Revoke enrollment
+              </button>
             </div>
           </div>
         ) : (
@@ -1054,25 +3914,164 @@ function SettingsView({ db, save }: { db: DB; save: (x: DB) => void }) {
             <input
               value={token}
               onChange={(e) => setToken(e.target.value)}
-              placeholder="ORG-ID|SITE-ID|DATE"
+              placeholder="BWE1.…"
               className="bg-black text-white border border-white/30 rounded-xl px-3 py-2"
             />
             <button onClick={enroll} className="px-4 py-2 rounded-xl border border-white/40 bg-white text-black">
               Enroll Device
             </button>
+            {sync.pending > 0 && (
+              <div className="text-xs text-white/60">{sync.pending} punch(es) from a previous enrollment are still queued.</div>
+            )}
           </div>
         )}
+        <div className="grid gap-2 mt-4 pt-4 border-t border-white/10">
+          <div className="text-sm text-white/60">Enrollment public key (from Admin Portal)</div>
+          <input
+            value={publicKey}
+            onChange={(e) => setPublicKey(e.target.value)}
+            placeholder="MFkwEwYHKoZIzj0CAQYIKoZIzj0DAQcDQgAE…"
+            className="bg-black text-white border border-white/30 rounded-xl px-3 py-2 font-mono text-xs"
+          />
+          <div>
+            <button onClick={savePublicKey} className="px-4 py-2 rounded-xl border border-white/40">
+              Save key
+            </button>
+          </div>
+        </div>
+        {db.device.bindings?.length ? (
+          <div className="mt-4 text-xs text-white/60 space-y-1">
+            <div className="font-semibold">Previous enrollments</div>
+            {db.device.bindings.map((b) => (
+              <div key={`${b.deviceId}-${b.revokedAt}`}>
+                {b.orgId}/{b.siteId} · {b.deviceId} · revoked {new Date(b.revokedAt).toLocaleString()}
+              </div>
+            ))}
+          </div>
+        ) : null}
       </Section>
 
       <Section title="Connectivity & Privacy">
         <label className="flex items-center gap-2">
           <input type="checkbox" checked={online} onChange={(e) => setOnline(e.target.checked)} />
-          <span className="text-sm">Simulate Online</span>
+          <span className="text-sm">Network enabled (uncheck to simulate offline)</span>
+        </label>
+        <label className="block text-sm mt-3">
+          Sync endpoint
+          <input
+            value={syncEndpoint}
+            onChange={(e) => setSyncEndpoint(e.target.value)}
+            placeholder="http://localhost:8787/events"
+            className="mt-1 w-full bg-black text-white border border-white/30 rounded-xl px-3 py-2"
+          />
         </label>
         <label className="flex items-center gap-2 mt-3">
           <input type="checkbox" checked={requireSelfie} onChange={(e) => setRequireSelfie(e.target.checked)} />
           <span className="text-sm">Require audit selfie</span>
         </label>
+        <label className="flex items-center gap-2 mt-3">
+          <input
+            type="checkbox"
+            checked={requireStrongBiometric}
+            onChange={(e) => setRequireStrongBiometric(e.target.checked)}
+          />
+          <span className="text-sm">
+            Require strong biometric (no hold-button fallback for employees with an enrolled biometric; those without one
+            keep it until a manager enrolls them)
+          </span>
+        </label>
+        <label className="flex items-center gap-2 mt-3">
+          <input
+            type="checkbox"
+            checked={allowSoftwareAuthenticator}
+            onChange={(e) => setAllowSoftwareAuthenticator(e.target.checked)}
+          />
+          <span className="text-sm">Software authenticator for new enrollments (testing only)</span>
+        </label>
+        <label className="block text-sm mt-3">
+          Employee PIN
+          <select
+            value={pinPolicy}
+            onChange={(e) => setPinPolicy(e.target.value as "off" | "if-set" | "required")}
+            className="mt-1 w-full bg-black text-white border border-white/30 rounded-xl px-3 py-2"
+          >
+            <option value="if-set">Ask employees who have a PIN</option>
+            <option value="required">Required for every punch</option>
+            <option value="off">Never ask</option>
+          </select>
+        </label>
+        <label className="block text-sm mt-3">
+          Out-of-order punches (e.g. clock-in twice)
+          <select
+            value={invalidPunchPolicy}
+            onChange={(e) => setInvalidPunchPolicy(e.target.value as "warn" | "block")}
+            className="mt-1 w-full bg-black text-white border border-white/30 rounded-xl px-3 py-2"
+          >
+            <option value="warn">Warn, record and flag for review</option>
+            <option value="block">Block</option>
+          </select>
+        </label>
+        <label className="block text-sm mt-3">
+          Selfie liveness check (blink / head turn)
+          <select
+            value={livenessPolicy}
+            onChange={(e) => setLivenessPolicy(e.target.value as "off" | "flag" | "block")}
+            disabled={!requireSelfie}
+            className="mt-1 w-full bg-black text-white border border-white/30 rounded-xl px-3 py-2 disabled:opacity-40"
+          >
+            <option value="off">Off</option>
+            <option value="flag">On, record failures and flag them</option>
+            <option value="block">On, block the punch on failure</option>
+          </select>
+        </label>
+        <label className="block text-sm mt-3">
+          Meal break required for shifts over (hours)
+          <input
+            type="number"
+            value={mealAfter}
+            min={1}
+            max={16}
+            step={0.5}
+            onChange={(e) => setMealAfter(Number(e.target.value))}
+            className="mt-1 w-full bg-black text-white border border-white/30 rounded-xl px-3 py-2"
+          />
+        </label>
+        <div className="grid grid-cols-2 gap-3 mt-3">
+          <label className="block text-sm">
+            Late after (minutes past schedule)
+            <input
+              type="number"
+              value={lateGrace}
+              min={0}
+              max={120}
+              onChange={(e) => setLateGrace(Number(e.target.value))}
+              className="mt-1 w-full bg-black text-white border border-white/30 rounded-xl px-3 py-2"
+            />
+          </label>
+          <label className="block text-sm">
+            Early before (minutes ahead of schedule)
+            <input
+              type="number"
+              value={earlyGrace}
+              min={0}
+              max={120}
+              onChange={(e) => setEarlyGrace(Number(e.target.value))}
+              className="mt-1 w-full bg-black text-white border border-white/30 rounded-xl px-3 py-2"
+            />
+          </label>
+        </div>
+        <label className="block text-sm mt-3">
+          Face match: send punches below this score to review ({Math.round(faceThreshold * 100)}%)
+          <input
+            type="range"
+            value={faceThreshold}
+            min={0.3}
+            max={0.95}
+            step={0.01}
+            onChange={(e) => setFaceThreshold(Number(e.target.value))}
+            className="mt-1 w-full"
+          />
+        </label>
         <label className="block text-sm mt-3">
           Selfie retention (weeks)
           <input
@@ -1088,47 +4087,183 @@ function SettingsView({ db, save }: { db: DB; save: (x: DB) => void }) {
           <button onClick={savePrefs} className="px-4 py-2 rounded-xl border border-white/40 bg-white text-black">
             Save
           </button>
-          <button
-            onClick={() => {
-              const next = { ...db, device: { ...db.device, online } };
-              save(next);
-            }}
-            className="px-4 py-2 rounded-xl border border-white/40"
-          >
+          <button onClick={sync.syncNow} className="px-4 py-2 rounded-xl border border-white/40">
             Sync now
           </button>
         </div>
+        <div className="text-xs text-white/50 mt-2">
+          {sync.pending} queued · last sync {sync.lastSyncAt ? new Date(sync.lastSyncAt).toLocaleString() : "never"}
+          {sync.status === "error" && <span className="text-red-300"> · {sync.lastError}</span>}
+        </div>
       </Section>
 
-      <Section title="Admin Code (Demo)">
-        <div className="text-sm text-white/60 mb-2">Set or rotate the Admin Code used for Manager access.</div>
-        <input
-          type="password"
-          placeholder="Enter new code (e.g., 6 digits)"
-          value={adminCode}
-          onChange={(e) => setAdminCode(e.target.value)}
-          className="bg-black text-white border border-white/30 rounded-xl px-3 py-2"
-        />
-        <div className="pt-3">
-          <button onClick={setCode} className="px-4 py-2 rounded-xl border border-white/40 bg-white text-black">
-            Update Admin Code
+      <Section title="Sites">
+        <SiteRegistry db={db} save={save} actor={actor} />
+      </Section>
+
+      <Section title="QR Badges">
+        <div className="text-sm text-white/60 mb-2">
+          Badges are signed with this key. Every kiosk in the org needs the same key to accept them.
+        </div>
+        <div className="text-sm">
+          Key: <span className="font-semibold">{db.device.badgeKey ? "configured" : "not set"}</span>
+        </div>
+        <div className="flex gap-3 pt-3">
+          <button onClick={rotateBadgeKey} className="px-4 py-2 rounded-xl border border-white/40">
+            {db.device.badgeKey ? "Rotate key" : "Generate key"}
           </button>
+          {db.device.badgeKey && (
+            <button
+              onClick={() => navigator.clipboard.writeText(db.device.badgeKey!).then(() => alert("Key copied."))}
+              className="px-4 py-2 rounded-xl border border-white/40"
+            >
+              Copy key
+            </button>
+          )}
         </div>
-        <div className="text-xs text-white/50 mt-2">
-          Default is <strong>246810</strong> for demo. In production, codes come from the Admin Portal.
+        <div className="flex gap-2 pt-3">
+          <input
+            value={badgeKeyInput}
+            onChange={(e) => setBadgeKeyInput(e.target.value)}
+            placeholder="Paste key from another kiosk"
+            className="flex-1 bg-black text-white border border-white/30 rounded-xl px-3 py-2"
+          />
+          <button onClick={importBadgeKey} className="px-4 py-2 rounded-xl border border-white/40 bg-white text-black">
+            Import
+          </button>
         </div>
       </Section>
 
+      <Section title="Storage">
+        <StoragePanel db={db} />
+      </Section>
+
+      <Section title="Data Retention">
+        <RetentionSettings db={db} save={save} actor={actor} />
+      </Section>
+
+      <Section title="Data Encryption">
+        <VaultSettings db={db} save={save} actor={actor} />
+      </Section>
+
       <Section title="Danger Zone">
         <button onClick={factoryReset} className="px-4 py-2 rounded-xl border border-white/40">
           Factory reset
         </button>
         <div className="text-xs text-white/50 mt-2">Clears local data and unenrolls device.</div>
+        {db.device.keyring && (
+          <>
+            <button onClick={discardVault} className="mt-4 px-4 py-2 rounded-xl border border-white/40">
+              Discard encrypted data
+            </button>
+            <div className="text-xs text-white/50 mt-2">
+              Only if every manager code and the recovery key are lost: removes phone numbers, addresses and selfies that
+              can no longer be decrypted. Punches are kept.
+            </div>
+          </>
+        )}
       </Section>
     </div>
   );
 }
 
+/* ----------------------------- Vault settings ----------------------------- */
+function VaultSettings({ db, save, actor }: { db: DB; save: SaveDB; actor: ManagerAccount }) {
+  const [recoveryKey, setRecoveryKey] = useState("");
+  const [code, setCode] = useState("");
+  const [busy, setBusy] = useState(false);
+  const keyring = db.device.keyring;
+  const unlocked = isUnlocked();
+
+  const rotate = async () => {
+    if (!keyring || !confirm("Generate a new device key and re-encrypt all personal data now?")) return;
+    setBusy(true);
+    try {
+      const next = await rotateDeviceKey(keyring);
+      // saved before anything is re-encrypted; the old key stays in it until settled
+      await save((cur) => audit({ ...cur, device: { ...cur.device, keyring: next } }, actor.username, "settings-change", "keyring rotated"));
+      const settled = await settleVault(next, db, mapEventSelfies, save);
+      alert(settled ? "Device key rotated." : "Device key rotated. Some data is still under the old key; it is re-encrypted at the next sign-in.");
+    } catch (e: any) {
+      alert(`Key rotation failed: ${e?.message || e}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const newRecoveryKey = async () => {
+    if (!keyring || !confirm("Replace the recovery key? The old one stops working.")) return;
+    const next = await rotateRecoveryKey(keyring);
+    save((cur) => audit({ ...cur, device: { ...cur.device, keyring: next.keyring } }, actor.username, "settings-change", "recovery key replaced"));
+    prompt("New recovery key. Write it down; it is shown only once.", next.recoveryKey);
+  };
+
+  // an admin whose code no longer opens the vault gets back in with the recovery key
+  const recover = async () => {
+    if (!keyring) return;
+    if (!(await checkLogin(actor, code)).ok) return alert("Your access code is incorrect.");
+    if (!(await unlockWithRecoveryKey(keyring, recoveryKey))) return alert("That recovery key does not match this device.");
+    const vaultKey = await wrapVaultForCode(code);
+    save((cur) => {
+      const managers = cur.managers.map((m) => (m.id === actor.id ? { ...m, vaultKey } : m));
+      return audit({ ...cur, managers }, actor.username, "account-change", `${actor.username}: vault restored with recovery key`);
+    });
+    setRecoveryKey("");
+    setCode("");
+    alert("Encrypted data unlocked. Reset other managers' codes to give them access again.");
+  };
+
+  if (!keyring) {
+    return (
+      <div className="text-sm text-white/60">
+        Not set up yet. The vault is created the next time an admin signs in; existing personal data is encrypted then.
+      </div>
+    );
+  }
+
+  const field = "bg-black text-white border border-white/30 rounded-xl px-3 py-2";
+
+  return (
+    <div className="grid gap-3 text-sm">
+      <div className="text-white/60">
+        Phone numbers, addresses and selfies are encrypted on this device (key {keyring.keyId}, created{" "}
+        {new Date(keyring.createdAt).toLocaleDateString()}
+        {keyring.rotatedAt && `, rotated ${new Date(keyring.rotatedAt).toLocaleDateString()}`}).
+      </div>
+      {needsSettling(db) && (
+        <div className="text-white/60">
+          Some data is not yet under the current key. It is re-encrypted while a manager is signed in; earlier keys are kept
+          until then.
+        </div>
+      )}
+      <div>
+        Vault: <span className="font-semibold">{unlocked ? "Unlocked for this session" : "Locked"}</span>
+      </div>
+      {unlocked ? (
+        <div className="flex gap-2">
+          <button disabled={busy} onClick={rotate} className="px-4 py-2 rounded-xl border border-white/40 disabled:opacity-40">
+            {busy ? "Re-encrypting…" : "Rotate device key"}
+          </button>
+          <button onClick={newRecoveryKey} className="px-4 py-2 rounded-xl border border-white/40">
+            New recovery key
+          </button>
+        </div>
+      ) : (
+        <div className="grid gap-2">
+          <div className="text-white/60">Your access code does not open the vault. Unlock it with the recovery key.</div>
+          <input placeholder="Recovery key" value={recoveryKey} onChange={(e) => setRecoveryKey(e.target.value)} className={`${field} font-mono`} />
+          <input type="password" placeholder="Your access code" value={code} onChange={(e) => setCode(e.target.value)} className={field} />
+          <div>
+            <button onClick={recover} className="px-4 py-2 rounded-xl border border-white/40 bg-white text-black">
+              Unlock with recovery key
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
 /* -------------------------------- helpers --------------------------------- */
 function resolveEmpName(employeeInternalId: string, list: Employee[]) {
   const e = list.find((x) => x.id === employeeInternalId);
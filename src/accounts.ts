@@ -0,0 +1,90 @@
+import type { AuditEntry, DB, LoginThrottle, ManagerAccount, ManagerRole } from "./types";
+import { hashPin, verifyPin } from "./pin";
+import { nowISO, sha256, uid } from "./util";
+
+/* ============================================================================
+   MANAGER ACCOUNTS
+   - Each manager signs in with a username and a personal access code,
+     hashed like employee PINs (PBKDF2)
+   - Failed sign-ins are counted per device, whatever the username: after
+     FREE_ATTEMPTS every further failure locks sign-in for twice as long as
+     the last one (LOCK_BASE_SECONDS up to LOCK_MAX_MINUTES)
+   - A session ends after SESSION_IDLE_MINUTES without input
+   - Roles map to permissions; supervisors approve and review, admins also
+     change settings, export data and manage employees and accounts
+   - The old shared admin code becomes an "admin" account whose SHA-256
+     hash is upgraded to PBKDF2 the first time it is used
+   - Approvals, disables, settings changes and exports are written to the
+     audit log with the acting username
+============================================================================ */
+
+export const DEFAULT_ADMIN_USERNAME = "admin";
+export const MIN_CODE_LENGTH = 6;
+export const SESSION_IDLE_MINUTES = 5;
+const FREE_ATTEMPTS = 3;
+const LOCK_BASE_SECONDS = 30;
+const LOCK_MAX_MINUTES = 60;
+
+export type Permission = "approve" | "correct" | "export" | "settings" | "employees" | "accounts";
+
+const PERMISSIONS: Record<ManagerRole, Permission[]> = {
+  supervisor: ["approve", "correct"],
+  admin: ["approve", "correct", "export", "settings", "employees", "accounts"],
+};
+
+export const ROLE_LABELS: Record<ManagerRole, string> = {
+  supervisor: "Supervisor",
+  admin: "Admin",
+};
+
+export const can = (acct: ManagerAccount | null | undefined, p: Permission) =>
+  !!acct && !acct.disabled && PERMISSIONS[acct.role].includes(p);
+
+export const normalizeUsername = (s: string) => s.trim().toLowerCase();
+export const validUsername = (s: string) => /^[a-z0-9._-]{2,32}$/.test(s);
+export const validCode = (code: string) => code.length >= MIN_CODE_LENGTH;
+
+export async function newAccount(
+  fields: Pick<ManagerAccount, "username" | "name" | "role">,
+  code: string
+): Promise<ManagerAccount> {
+  return { ...fields, id: uid(), credential: await hashPin(code), createdAt: nowISO() };
+}
+
+/** Account created from the pre-accounts shared admin code hash. */
+export function legacyAdmin(adminCodeHash: string): ManagerAccount {
+  return {
+    id: uid(),
+    username: DEFAULT_ADMIN_USERNAME,
+    name: "Administrator",
+    role: "admin",
+    legacyCodeHash: adminCodeHash,
+    createdAt: nowISO(),
+  };
+}
+
+export function loginLockedUntil(t: LoginThrottle | undefined, now = Date.now()) {
+  return t?.lockedUntil && Date.parse(t.lockedUntil) > now ? new Date(t.lockedUntil) : null;
+}
+
+/** Throttle state after one more failed sign-in. */
+export function loginFailed(t: LoginThrottle | undefined, now = Date.now()): LoginThrottle {
+  const failedAttempts = (t?.failedAttempts || 0) + 1;
+  const over = failedAttempts - FREE_ATTEMPTS;
+  if (over <= 0) return { failedAttempts };
+  const seconds = Math.min(LOCK_BASE_SECONDS * 2 ** (over - 1), LOCK_MAX_MINUTES * 60);
+  return { failedAttempts, lockedUntil: new Date(now + seconds * 1000).toISOString() };
+}
+
+/** Check `code`; `next` is the account to persist when a legacy hash was upgraded. */
+export async function checkLogin(acct: ManagerAccount, code: string) {
+  if (acct.credential) return { ok: await verifyPin(acct.credential, code), next: acct };
+  if (acct.legacyCodeHash && (await sha256(code)) === acct.legacyCodeHash) {
+    return { ok: true, next: { ...acct, credential: await hashPin(code), legacyCodeHash: undefined } };
+  }
+  return { ok: false, next: acct };
+}
+
+export function audit(db: DB, by: string, action: AuditEntry["action"], detail?: string): DB {
+  return { ...db, audit: [...db.audit, { id: uid(), at: nowISO(), by, action, detail }] };
+}
@@ -0,0 +1,71 @@
+import QRCode from "qrcode";
+import type { Employee } from "./types";
+import { fromB64url, toB64url } from "./util";
+
+/* ============================================================================
+   QR BADGES
+   - Payload: BWK1:<orgId>:<employeeId>:<mac>, parts URI-encoded
+   - mac = HMAC-SHA256 over the first three parts, truncated to 128 bits,
+     keyed by the org badge key (DeviceSettings.badgeKey)
+   - Keyed on the business employeeId (not the local record id) so every
+     kiosk holding the same badge key accepts the same badge
+============================================================================ */
+
+const PREFIX = "BWK1";
+
+const esc = (s: string) =>
+  s.replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[c] as string);
+
+export function newBadgeKey() {
+  return toB64url(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+async function mac(key: string, body: string) {
+  const k = await crypto.subtle.importKey("raw", fromB64url(key), { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+  const sig = await crypto.subtle.sign("HMAC", k, new TextEncoder().encode(body));
+  return toB64url(new Uint8Array(sig).slice(0, 16));
+}
+
+export async function signBadge(key: string, emp: Pick<Employee, "orgId" | "employeeId">) {
+  const body = [PREFIX, encodeURIComponent(emp.orgId), encodeURIComponent(emp.employeeId)].join(":");
+  return `${body}:${await mac(key, body)}`;
+}
+
+/** Returns the org and business employee id a badge was issued for, or null if it is not a valid badge. */
+export async function verifyBadge(key: string, payload: string) {
+  const parts = payload.trim().split(":");
+  if (parts.length !== 4 || parts[0] !== PREFIX) return null;
+  const body = parts.slice(0, 3).join(":");
+  if ((await mac(key, body)) !== parts[3]) return null;
+  try {
+    return { orgId: decodeURIComponent(parts[1]), employeeId: decodeURIComponent(parts[2]) };
+  } catch {
+    return null;
+  }
+}
+
+/** Opens a printable badge sheet for the given employees in a new window. */
+export async function printBadges(key: string, emps: Employee[]) {
+  // open before any await so the pop-up still counts as a user gesture
+  const w = window.open("", "_blank");
+  if (!w) throw new Error("Pop-up blocked. Allow pop-ups to print badges.");
+  const cards = await Promise.all(
+    emps.map(async (e) => {
+      const qr = await QRCode.toDataURL(await signBadge(key, e), { margin: 1, width: 240 });
+      const name = esc(`${e.firstName} ${e.lastName}`);
+      return `<div class="card"><img src="${qr}" alt="badge"/><div class="name">${name}</div><div class="id">${esc(e.employeeId)}</div></div>`;
+    })
+  );
+  w.document.write(`<!doctype html><title>Badges</title>
+<style>
+  body { font-family: system-ui, sans-serif; display: flex; flex-wrap: wrap; gap: 12px; padding: 12px; }
+  .card { width: 2.125in; height: 3.375in; border: 1px solid #000; border-radius: 8px; padding: 8px;
+          box-sizing: border-box; text-align: center; page-break-inside: avoid; }
+  .card img { width: 100%; }
+  .name { font-weight: 600; margin-top: 6px; }
+  .id { font-size: 12px; color: #444; }
+</style>
+${cards.join("")}
+<script>window.onload = () => window.print();</script>`);
+  w.document.close();
+}
@@ -0,0 +1,57 @@
+import { useEffect, useRef } from "react";
+
+/* ============================================================================
+   KEYBOARD-WEDGE CARD READERS (USB RFID / magstripe)
+   - Readers "type" the card number and press Enter within a few ms per key;
+     people don't. A burst counts as a card read when every keystroke
+     (including the final Enter) follows the previous one within MAX_GAP_MS.
+   - Magstripe data carries sentinels (%B...^NAME^...? or ;digits=...?);
+     only the account/card number field is kept.
+============================================================================ */
+
+const MAX_GAP_MS = 50;
+const MIN_LENGTH = 4;
+
+export interface CardRead {
+  card: string;
+  raw: string;
+  magstripe: boolean;
+}
+
+export function normalizeCard(raw: string): CardRead {
+  const s = raw.trim();
+  const magstripe = /^[%;].*\?$/.test(s);
+  if (!magstripe) return { card: s.toUpperCase(), raw, magstripe };
+  // track 1: %B<pan>^NAME^... ; track 2: ;<pan>=...
+  const body = s.slice(1, -1).replace(/^B/, "");
+  return { card: body.split(/[\^=]/)[0].toUpperCase(), raw, magstripe };
+}
+
+/** Listens for reader bursts anywhere on the page while `enabled`. */
+export function useCardReader(enabled: boolean, onRead: (read: CardRead) => void) {
+  const onReadRef = useRef(onRead);
+  onReadRef.current = onRead;
+
+  useEffect(() => {
+    if (!enabled) return;
+    let buf = "";
+    let last = 0;
+    const onKey = (e: KeyboardEvent) => {
+      const now = e.timeStamp;
+      if (now - last > MAX_GAP_MS) buf = "";
+      last = now;
+      if (e.key === "Enter") {
+        if (buf.length >= MIN_LENGTH) {
+          e.preventDefault();
+          e.stopPropagation();
+          onReadRef.current(normalizeCard(buf));
+        }
+        buf = "";
+      } else if (e.key.length === 1) {
+        buf += e.key;
+      }
+    };
+    window.addEventListener("keydown", onKey, true);
+    return () => window.removeEventListener("keydown", onKey, true);
+  }, [enabled]);
+}
@@ -0,0 +1,195 @@
+import { useEffect, useState } from "react";
+import type { Amendment, ChainAnchor, EventRecord, FaceMatch } from "./types";
+import { sha256 } from "./util";
+
+/* ============================================================================
+   EVENT HASH CHAIN
+   - Every punch recorded on this device carries prevHash (the hash of the
+     previous event by offlineSeq, GENESIS for the first) and its own hash
+     over the punch as originally recorded:
+       sha256(JSON [id, orgId, siteId, deviceId, employeeId, type, ts,
+                    identity, biometric, offlineSeq, exception, prevHash])
+   - Later formats add fields recorded with the punch: the event's
+     hashFormat picks the content, so chains recorded earlier still verify.
+     From format 2 the content starts with a "v<format>" tag and appends
+       2  liveness [challenge, result]
+       3  + the schedule tag (on-time/late/early/unscheduled)
+       4  + the face match as captured: [result, score], or "pending"
+     Dropping or lowering hashFormat changes the content, so it breaks the
+     hash like any other edit
+   - A face match that changes after capture (a pending one scored once the
+     vault is open, a manager review) carries its own hash over result,
+     score, scoredAt and review, chained on the event hash like an
+     amendment; from format 4 a review or late score without it is a break
+   - Fields that change legitimately are left out: synced, the exception's
+     reviewedAt, the selfie (purged by retention) and a pending face match's
+     probe (dropped by erase)
+   - Manager amendments are chained on top of the event hash; the verifier
+     undoes them (via their `from` values) to recover the original punch,
+     so an edit without a matching amendment breaks the event hash
+     (dropping an event's whole amendment list restores a valid original;
+     synced revisions upstream are the reference for that case)
+   - Events recorded before chaining existed are reported as unchained
+   - Retention purges remove the oldest events only (retention.ts) and leave
+     a ChainAnchor with the last removed seq/hash, where verification and
+     new punches pick the chain up
+============================================================================ */
+
+export const GENESIS = "0".repeat(64);
+const HASH_FORMAT = 4;
+
+export type ChainProblem =
+  | "hash-mismatch"
+  | "link-mismatch"
+  | "gap"
+  | "missing-hash"
+  | "amendment-mismatch"
+  | "face-match-mismatch";
+
+export const CHAIN_PROBLEM_LABELS: Record<ChainProblem, string> = {
+  "hash-mismatch": "Record altered",
+  "link-mismatch": "Link to previous event broken",
+  gap: "Events missing before this one",
+  "missing-hash": "Hash missing",
+  "amendment-mismatch": "Correction history altered",
+  "face-match-mismatch": "Face match result altered",
+};
+
+export interface ChainBreak {
+  eventId: string;
+  offlineSeq: number;
+  problem: ChainProblem;
+}
+
+export interface ChainReport {
+  checked: number;
+  unchained: number;
+  breaks: ChainBreak[];
+}
+
+type Original = Pick<EventRecord, "ts" | "type">;
+
+function eventContent(e: EventRecord, o: Original, prevHash: string) {
+  const { factors, exception: x } = e;
+  const exception = x ? [x.code, x.from, x.attempted] : null;
+  const who = [e.id, e.orgId, e.siteId, e.deviceId, e.employeeId];
+  const base = [...who, o.type, o.ts, factors.identity, factors.biometric, e.offlineSeq, exception, prevHash];
+  const format = e.hashFormat || 1;
+  if (format === 1) return JSON.stringify(base);
+  const extra: unknown[] = [e.liveness ? [e.liveness.challenge, e.liveness.result] : null];
+  if (format >= 3) extra.push(e.schedule ?? null);
+  if (format >= 4) {
+    const f = e.faceMatch;
+    extra.push(f ? (f.scoredAt ? ["pending", null] : [f.result, f.score ?? null]) : null);
+  }
+  return JSON.stringify([`v${format}`, ...base, ...extra]);
+}
+
+function amendmentContent(a: Amendment, prev: string) {
+  const changes = a.changes.map((c) => [c.field, c.from ?? null, c.to ?? null]);
+  return JSON.stringify([a.id, a.at, a.by, a.action, a.reason, a.note ?? null, changes, prev]);
+}
+
+function faceMatchContent(f: FaceMatch, eventHash: string) {
+  const review = f.review ? [f.review.at, f.review.by, f.review.verdict] : null;
+  return JSON.stringify([f.result, f.score ?? null, f.scoredAt ?? null, review, eventHash]);
+}
+
+/** Seal a face match changed after capture (a later score, a review) onto `e`'s hash; unchained events pass through. */
+export async function sealFaceMatch(e: EventRecord, f: FaceMatch): Promise<FaceMatch> {
+  return e.hash ? { ...f, hash: await sha256(faceMatchContent(f, e.hash)) } : f;
+}
+
+/** Undo amendments newest-first; null when an amendment's `to` doesn't match the value it claims to have set. */
+function original(e: EventRecord): Original | null {
+  const o: Record<"ts" | "type" | "voided", string> = { ts: e.ts, type: e.type, voided: String(!!e.voided) };
+  for (const a of [...(e.amendments || [])].reverse()) {
+    for (const c of a.changes) {
+      if (o[c.field] !== c.to) return null;
+      if (c.from !== undefined) o[c.field] = c.from;
+    }
+  }
+  // a punch is never recorded voided, so an original "true" means the void was not amended in
+  if (o.voided !== "false") return null;
+  return { ts: o.ts, type: o.type as EventRecord["type"] };
+}
+
+/** Link `ev` to the newest event in `events` (or the anchor once all were purged). Call before adding it to the store. */
+export async function chainEvent(events: EventRecord[], ev: EventRecord, anchor?: ChainAnchor): Promise<EventRecord> {
+  const prev = events.reduce<ChainAnchor | undefined>((p, e) => (!p || e.offlineSeq > p.offlineSeq ? e : p), anchor);
+  const prevHash = prev?.hash || GENESIS;
+  const o = original(ev) as Original;
+  const content = { ...ev, hashFormat: HASH_FORMAT };
+  const chained = { ...content, prevHash, hash: await sha256(eventContent(content, o, prevHash)) };
+  return sealAmendments(chained);
+}
+
+/** Hash any amendments appended since the event was last sealed. */
+export async function sealAmendments(e: EventRecord): Promise<EventRecord> {
+  if (!e.hash || !e.amendments?.some((a) => !a.hash)) return e;
+  let prev = e.hash;
+  const amendments: Amendment[] = [];
+  for (const a of e.amendments) {
+    const hash = a.hash || (await sha256(amendmentContent(a, prev)));
+    amendments.push({ ...a, hash });
+    prev = hash;
+  }
+  return { ...e, amendments };
+}
+
+export async function verifyChain(events: EventRecord[], anchor?: ChainAnchor): Promise<ChainReport> {
+  const sorted = [...events].sort((a, b) => a.offlineSeq - b.offlineSeq);
+  const report: ChainReport = { checked: 0, unchained: 0, breaks: [] };
+  let prev: ChainAnchor | undefined = anchor;
+  for (const e of sorted) {
+    const flag = (problem: ChainProblem) => report.breaks.push({ eventId: e.id, offlineSeq: e.offlineSeq, problem });
+    const chainStarted = !!prev?.hash;
+    if (!e.hash) {
+      if (chainStarted) flag("missing-hash");
+      else report.unchained++;
+      prev = e;
+      continue;
+    }
+    report.checked++;
+    if (chainStarted && e.offlineSeq !== prev!.offlineSeq + 1) flag("gap");
+    else if (e.prevHash !== (chainStarted ? prev!.hash : GENESIS)) flag("link-mismatch");
+
+    const o = original(e);
+    if (!o || (await sha256(eventContent(e, o, e.prevHash || ""))) !== e.hash) flag("hash-mismatch");
+
+    const f = e.faceMatch;
+    if ((e.hashFormat || 1) >= 4 && f && (f.hash || f.review || f.scoredAt)) {
+      if (f.hash !== (await sha256(faceMatchContent(f, e.hash)))) flag("face-match-mismatch");
+    }
+
+    let link = e.hash;
+    for (const a of e.amendments || []) {
+      if (a.hash !== (await sha256(amendmentContent(a, link)))) {
+        flag("amendment-mismatch");
+        break;
+      }
+      link = a.hash as string;
+    }
+    prev = e;
+  }
+  return report;
+}
+
+export function describeChain(r: ChainReport) {
+  if (r.breaks.length) return `Chain broken at ${r.breaks.length} event(s)`;
+  const legacy = r.unchained ? ` (${r.unchained} older unchained)` : "";
+  return `Chain intact · ${r.checked} event(s)${legacy}`;
+}
+
+/** Re-verifies whenever the event list changes; null while the first check runs. */
+export function useChainReport(events: EventRecord[], anchor?: ChainAnchor) {
+  const [report, setReport] = useState<ChainReport | null>(null);
+  useEffect(() => {
+    let cancelled = false;
+    verifyChain(events, anchor).then((r) => !cancelled && setReport(r));
+    return () => {
+      cancelled = true;
+    };
+  }, [events, anchor]);
+  return report;
+}
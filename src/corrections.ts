@@ -0,0 +1,61 @@
+import type { Amendment, AmendmentReason, EventRecord } from "./types";
+import { nowISO, uid } from "./util";
+
+/* ============================================================================
+   MANAGER CORRECTIONS
+   - Punches are never deleted or overwritten silently: every add, edit and
+     void appends an Amendment with who/when/why and old -> new values
+   - Voided punches stay in the store but are left out of liveEvents(), which
+     timesheets and punch state use
+   - Amended punches are queued for sync again (see sync.ts revision keys)
+============================================================================ */
+
+export const REASON_LABELS: Record<AmendmentReason, string> = {
+  "missed-punch": "Forgot to punch",
+  "wrong-time": "Wrong time recorded",
+  "wrong-type": "Wrong punch type",
+  duplicate: "Duplicate punch",
+  "device-error": "Device or clock error",
+  other: "Other",
+};
+
+export interface AmendMeta {
+  by: string;
+  reason: AmendmentReason;
+  note?: string;
+}
+
+export const liveEvents = (events: EventRecord[]) => events.filter((e) => !e.voided);
+
+function stamp(e: EventRecord, a: Omit<Amendment, "id" | "at">): EventRecord {
+  return { ...e, amendments: [...(e.amendments || []), { id: uid(), at: nowISO(), ...a }], synced: false };
+}
+
+/** A punch entered by a manager on behalf of an employee. */
+export function manualEvent(base: Omit<EventRecord, "id" | "factors" | "synced" | "amendments">, meta: AmendMeta) {
+  const e: EventRecord = { ...base, id: uid(), factors: { identity: "manual", biometric: "none" }, synced: false };
+  return stamp(e, { ...meta, action: "create", changes: [{ field: "ts", to: e.ts }, { field: "type", to: e.type }] });
+}
+
+export function amendEvent(e: EventRecord, next: Partial<Pick<EventRecord, "ts" | "type">>, meta: AmendMeta) {
+  const changes: Amendment["changes"] = [];
+  if (next.ts && next.ts !== e.ts) changes.push({ field: "ts", from: e.ts, to: next.ts });
+  if (next.type && next.type !== e.type) changes.push({ field: "type", from: e.type, to: next.type });
+  if (changes.length === 0) return e;
+  return stamp({ ...e, ...next }, { ...meta, action: "edit", changes });
+}
+
+export function voidEvent(e: EventRecord, meta: AmendMeta) {
+  return stamp({ ...e, voided: true }, { ...meta, action: "void", changes: [{ field: "voided", from: "false", to: "true" }] });
+}
+
+const fmtValue = (field: string, v: string | undefined, iso: boolean) =>
+  v === undefined ? "—" : field === "ts" && !iso ? new Date(v).toLocaleString() : v;
+
+/** One-line history entry. `iso` keeps timestamps machine-readable (exports). */
+export function describeAmendment(a: Amendment, { iso = false } = {}) {
+  const what = a.changes.map((c) => `${c.field}: ${fmtValue(c.field, c.from, iso)} → ${fmtValue(c.field, c.to, iso)}`);
+  const at = iso ? a.at : new Date(a.at).toLocaleString();
+  const note = a.note ? ` "${a.note}"` : "";
+  return `${at} · ${a.by} · ${a.action} (${REASON_LABELS[a.reason]}${note}) · ${what.join(", ")}`;
+}
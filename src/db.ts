@@ -0,0 +1,382 @@
+import { DEFAULT_ADMIN_USERNAME, legacyAdmin, newAccount } from "./accounts";
+import { blobToSelfie, selfieToBlob } from "./selfies";
+import { isEncrypted } from "./vault";
+import type {
+  AuditEntry,
+  DB,
+  DeviceSettings,
+  Employee,
+  EventRecord,
+  ManagerAccount,
+  PurgeRecord,
+  RollCall,
+  ScheduleRule,
+  Site,
+} from "./types";
+
+/* ============================================================================
+   KIOSK STORE – IndexedDB
+   - One object store per data class: employees, events, selfies, device
+   - Selfies live apart from the records that own them (keyed by owner id):
+     profile photos in "selfies" (read with the employees), punch selfies
+     as Blobs in "eventSelfies", read one at a time on demand (selfies.ts)
+   - Schema versions are applied in order by the migration runner below
+   - v1 imports the legacy single-key localStorage blob on first launch
+   - v2 adds manager accounts and the audit log; the old shared admin code
+     is turned into an account when the store is read (a store with neither
+     gets the fresh-install admin)
+   - v3 adds work schedules
+   - v4 adds saved roll calls
+   - v5 adds the site registry
+   - v6 moves punch selfies to "eventSelfies" as binary Blobs
+   - v7 adds the retention purge log
+============================================================================ */
+
+const IDB_NAME = "bw_kiosk";
+const LEGACY_DB_KEY = "bw_kiosk_db_v2";
+const STORES = ["employees", "events", "selfies", "device", "managers", "audit", "schedules", "rollCalls", "sites", "eventSelfies", "purgeLog"];
+
+interface SelfieRecord {
+  id: string; // id of the owning employee (or, before v6, event)
+  kind: "profile" | "event";
+  dataUrl: string; // vault-encrypted once the device keyring exists (vault.ts)
+}
+
+interface EventSelfieRecord {
+  id: string; // event id
+  blob: Blob; // see selfieToBlob
+}
+
+/* ------------------------------ Migrations -------------------------------- */
+// MIGRATIONS[n] upgrades the schema from version n to n + 1. Append only:
+// never edit a migration that has shipped, add a new one instead.
+type Migration = (idb: IDBDatabase, tx: IDBTransaction) => void;
+
+const MIGRATIONS: Migration[] = [
+  // v1: initial stores + import of bw_kiosk_db_v2
+  (idb, tx) => {
+    idb.createObjectStore("employees", { keyPath: "id" });
+    idb.createObjectStore("events", { keyPath: "id" }).createIndex("offlineSeq", "offlineSeq");
+    idb.createObjectStore("selfies", { keyPath: "id" });
+    idb.createObjectStore("device");
+    importLegacy(tx);
+  },
+  // v2: manager accounts + audit log
+  (idb) => {
+    idb.createObjectStore("managers", { keyPath: "id" });
+    idb.createObjectStore("audit", { keyPath: "id" }).createIndex("at", "at");
+  },
+  // v3: work schedules
+  (idb) => {
+    idb.createObjectStore("schedules", { keyPath: "id" });
+  },
+  // v4: roll call records
+  (idb) => {
+    idb.createObjectStore("rollCalls", { keyPath: "id" }).createIndex("savedAt", "savedAt");
+  },
+  // v5: site registry
+  (idb) => {
+    idb.createObjectStore("sites", { keyPath: "id" });
+  },
+  // v6: punch selfies become Blobs in their own store, events get a SelfieRef
+  (idb, tx) => {
+    idb.createObjectStore("eventSelfies", { keyPath: "id" });
+    const events = tx.objectStore("events");
+    tx.objectStore("selfies").openCursor().onsuccess = (ev) => {
+      const cursor = (ev.target as IDBRequest<IDBCursorWithValue | null>).result;
+      if (!cursor) return;
+      const rec = cursor.value as SelfieRecord;
+      if (rec.kind === "event") {
+        const blob = selfieToBlob(rec.dataUrl);
+        tx.objectStore("eventSelfies").put({ id: rec.id, blob } satisfies EventSelfieRecord);
+        events.get(rec.id).onsuccess = (g) => {
+          const e = (g.target as IDBRequest<EventRecord | undefined>).result;
+          if (e) events.put({ ...e, selfie: { size: blob.size, encrypted: isEncrypted(rec.dataUrl) } });
+        };
+        cursor.delete();
+      }
+      cursor.continue();
+    };
+  },
+  // v7: retention purge log
+  (idb) => {
+    idb.createObjectStore("purgeLog", { keyPath: "id" }).createIndex("at", "at");
+  },
+];
+
+const IDB_VERSION = MIGRATIONS.length;
+
+function importLegacy(tx: IDBTransaction) {
+  const raw = localStorage.getItem(LEGACY_DB_KEY);
+  if (!raw) return;
+  let legacy: DB;
+  try {
+    legacy = JSON.parse(raw);
+  } catch {
+    console.warn("Discarding unreadable legacy kiosk data");
+    localStorage.removeItem(LEGACY_DB_KEY);
+    return;
+  }
+  (legacy.employees || []).forEach((e) => putEmployee(tx, e));
+  (legacy.events || []).forEach((e) => putLegacyEvent(tx, e));
+  if (legacy.device) tx.objectStore("device").put(legacy.device, "settings");
+  tx.objectStore("device").put(legacy.pendingSeq || 1, "pendingSeq");
+  // only drop the old blob once everything above has been committed
+  tx.addEventListener("complete", () => localStorage.removeItem(LEGACY_DB_KEY));
+}
+
+/* ------------------------------- Connection ------------------------------- */
+let conn: Promise<IDBDatabase> | null = null;
+
+function open(): Promise<IDBDatabase> {
+  if (conn) return conn;
+  conn = new Promise((resolve, reject) => {
+    const req = indexedDB.open(IDB_NAME, IDB_VERSION);
+    req.onupgradeneeded = (ev) => {
+      const tx = req.transaction as IDBTransaction;
+      for (let v = ev.oldVersion; v < IDB_VERSION; v++) MIGRATIONS[v](req.result, tx);
+    };
+    req.onsuccess = () => {
+      const idb = req.result;
+      // another tab is upgrading the schema; let it through and reconnect lazily
+      idb.onversionchange = () => {
+        idb.close();
+        conn = null;
+      };
+      resolve(idb);
+    };
+    req.onerror = () => {
+      conn = null;
+      reject(req.error);
+    };
+    req.onblocked = () => console.warn("Kiosk store upgrade blocked by another open tab");
+  });
+  return conn;
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function done(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error("Transaction aborted"));
+  });
+}
+
+/* ------------------------------ Record writes ----------------------------- */
+function putSelfie(tx: IDBTransaction, id: string, kind: SelfieRecord["kind"], dataUrl?: string) {
+  const store = tx.objectStore("selfies");
+  if (dataUrl) store.put({ id, kind, dataUrl } satisfies SelfieRecord);
+  else store.delete(id);
+}
+
+function putEmployee(tx: IDBTransaction, e: Employee) {
+  const { profileSelfie, ...rest } = e;
+  tx.objectStore("employees").put(rest);
+  putSelfie(tx, e.id, "profile", profileSelfie);
+}
+
+// pre-v6 layout, for the v1 import (v6 then moves the selfies)
+function putLegacyEvent(tx: IDBTransaction, e: EventRecord & { selfieDataUrl?: string }) {
+  const { selfieDataUrl, ...rest } = e;
+  tx.objectStore("events").put(rest);
+  putSelfie(tx, e.id, "event", selfieDataUrl);
+}
+
+// the image itself is written by saveEventSelfie at capture; a dropped ref drops the image
+function putEvent(tx: IDBTransaction, e: EventRecord) {
+  tx.objectStore("events").put(e);
+  if (!e.selfie) tx.objectStore("eventSelfies").delete(e.id);
+}
+
+const putRecord = (store: string) => (tx: IDBTransaction, rec: object) => tx.objectStore(store).put(rec);
+
+// Records are replaced immutably by the UI, so a changed reference means a
+// changed record. Only those (and removals) are written.
+function writeDiff<T extends { id: string }>(
+  tx: IDBTransaction,
+  store: string,
+  prev: T[],
+  next: T[],
+  put: (tx: IDBTransaction, rec: T) => void
+) {
+  const before = new Map(prev.map((r) => [r.id, r]));
+  for (const rec of next) {
+    if (before.get(rec.id) !== rec) put(tx, rec);
+    before.delete(rec.id);
+  }
+  for (const id of before.keys()) {
+    tx.objectStore(store).delete(id);
+    tx.objectStore("selfies").delete(id);
+    tx.objectStore("eventSelfies").delete(id);
+  }
+}
+
+/* --------------------------------- Public --------------------------------- */
+/** The admin a fresh install starts with. */
+const bootstrapAdmin = () =>
+  newAccount({ username: DEFAULT_ADMIN_USERNAME, name: "Administrator", role: "admin" }, "246810");
+
+async function initialDB(): Promise<DB> {
+  const device: DeviceSettings = {
+    enrolled: false,
+    orgId: "",
+    siteId: "",
+    deviceId: "",
+    online: true,
+    selfieRetentionWeeks: 4,
+    requireSelfie: true,
+    requireStrongBiometric: true,
+  };
+  const admin = await bootstrapAdmin();
+  return { employees: [], events: [], device, pendingSeq: 1, managers: [admin], audit: [], schedules: [], rollCalls: [], sites: [], purgeLog: [] };
+}
+
+let lastSaved: DB | null = null;
+let writes: Promise<void> = Promise.resolve();
+let loading: Promise<DB> | null = null;
+
+export function loadDB(): Promise<DB> {
+  if (!loading) {
+    loading = readAll().catch((e) => {
+      loading = null;
+      throw e;
+    });
+  }
+  return loading;
+}
+
+async function readAll(): Promise<DB> {
+  const idb = await open();
+  const tx = idb.transaction(STORES, "readonly");
+  const [employees, events, selfies, device, pendingSeq, managers, auditLog, schedules, rollCalls, sites, purgeLog] = await Promise.all([
+    request(tx.objectStore("employees").getAll() as IDBRequest<Employee[]>),
+    request(tx.objectStore("events").index("offlineSeq").getAll() as IDBRequest<EventRecord[]>),
+    request(tx.objectStore("selfies").getAll() as IDBRequest<SelfieRecord[]>),
+    request(tx.objectStore("device").get("settings") as IDBRequest<DeviceSettings | undefined>),
+    request(tx.objectStore("device").get("pendingSeq") as IDBRequest<number | undefined>),
+    request(tx.objectStore("managers").getAll() as IDBRequest<ManagerAccount[]>),
+    request(tx.objectStore("audit").index("at").getAll() as IDBRequest<AuditEntry[]>),
+    request(tx.objectStore("schedules").getAll() as IDBRequest<ScheduleRule[]>),
+    request(tx.objectStore("rollCalls").index("savedAt").getAll() as IDBRequest<RollCall[]>),
+    request(tx.objectStore("sites").getAll() as IDBRequest<Site[]>),
+    request(tx.objectStore("purgeLog").index("at").getAll() as IDBRequest<PurgeRecord[]>),
+  ]);
+
+  if (!device) {
+    const init = await initialDB();
+    await saveDB(init);
+    return init;
+  }
+
+  const selfieOf = new Map(selfies.map((s) => [s.id, s.dataUrl]));
+  const db: DB = {
+    employees: employees.map((e) => ({ ...e, profileSelfie: selfieOf.get(e.id) })),
+    events,
+    device,
+    pendingSeq: pendingSeq || 1,
+    managers,
+    audit: auditLog,
+    schedules,
+    rollCalls,
+    sites,
+    purgeLog,
+  };
+  lastSaved = db;
+
+  // without a legacy code to carry over, a device with no accounts gets the fresh-install admin
+  if (managers.length === 0) {
+    const { adminCodeHash, ...rest } = device;
+    const admin = adminCodeHash ? legacyAdmin(adminCodeHash) : await bootstrapAdmin();
+    const migrated = { ...db, device: rest, managers: [admin] };
+    await saveDB(migrated);
+    return migrated;
+  }
+  return db;
+}
+
+/** Persist `next`, writing only what changed since the last load/save. */
+export function saveDB(next: DB): Promise<void> {
+  const prev = lastSaved;
+  lastSaved = next;
+  const run = writes.then(async () => {
+    const idb = await open();
+    const tx = idb.transaction(STORES, "readwrite");
+    writeDiff(tx, "employees", prev?.employees || [], next.employees, putEmployee);
+    writeDiff(tx, "events", prev?.events || [], next.events, putEvent);
+    writeDiff(tx, "managers", prev?.managers || [], next.managers, putRecord("managers"));
+    writeDiff(tx, "audit", prev?.audit || [], next.audit, putRecord("audit"));
+    writeDiff(tx, "schedules", prev?.schedules || [], next.schedules, putRecord("schedules"));
+    writeDiff(tx, "rollCalls", prev?.rollCalls || [], next.rollCalls, putRecord("rollCalls"));
+    writeDiff(tx, "sites", prev?.sites || [], next.sites, putRecord("sites"));
+    writeDiff(tx, "purgeLog", prev?.purgeLog || [], next.purgeLog, putRecord("purgeLog"));
+    if (prev?.device !== next.device) tx.objectStore("device").put(next.device, "settings");
+    if (prev?.pendingSeq !== next.pendingSeq) tx.objectStore("device").put(next.pendingSeq, "pendingSeq");
+    await done(tx);
+  });
+  // keep the queue alive after a failed write; the caller still sees the error
+  writes = run.catch(() => undefined);
+  return run;
+}
+
+/* ------------------------------ Punch selfies ----------------------------- */
+/** Store the full selfie of an event (data URL or vault-encrypted), before the event itself is saved. */
+export async function saveEventSelfie(id: string, value: string): Promise<void> {
+  const tx = (await open()).transaction("eventSelfies", "readwrite");
+  tx.objectStore("eventSelfies").put({ id, blob: selfieToBlob(value) } satisfies EventSelfieRecord);
+  await done(tx);
+}
+
+/** The full selfie of an event as a data URL or vault-encrypted string; undefined once purged. */
+export async function loadEventSelfie(id: string): Promise<string | undefined> {
+  const tx = (await open()).transaction("eventSelfies", "readonly");
+  const rec = await request(tx.objectStore("eventSelfies").get(id) as IDBRequest<EventSelfieRecord | undefined>);
+  return rec && blobToSelfie(rec.blob);
+}
+
+/**
+ * Rewrite every stored punch selfie through `fn` (key rotation, first
+ * encryption); undefined deletes it. Each selfie is its own transaction, so
+ * an interrupted run leaves every selfie either old or new.
+ */
+export async function mapEventSelfies(fn: (value: string) => Promise<string | undefined>): Promise<void> {
+  const idb = await open();
+  const ids = await request(idb.transaction("eventSelfies", "readonly").objectStore("eventSelfies").getAllKeys());
+  for (const id of ids as string[]) {
+    const value = await loadEventSelfie(id);
+    if (value === undefined) continue;
+    const next = await fn(value);
+    if (next === value) continue;
+    const tx = idb.transaction("eventSelfies", "readwrite");
+    const store = tx.objectStore("eventSelfies");
+    // a selfie purged while fn ran stays purged
+    store.getKey(id).onsuccess = (e) => {
+      if ((e.target as IDBRequest).result === undefined) return;
+      if (next === undefined) store.delete(id);
+      else store.put({ id, blob: selfieToBlob(next) } satisfies EventSelfieRecord);
+    };
+    await done(tx);
+  }
+}
+
+/** Drop every store (and any leftover legacy blob). Used by factory reset. */
+export async function resetDB(): Promise<void> {
+  if (conn) (await conn).close();
+  conn = null;
+  loading = null;
+  lastSaved = null;
+  localStorage.removeItem(LEGACY_DB_KEY);
+  const req = indexedDB.deleteDatabase(IDB_NAME);
+  await new Promise<void>((resolve, reject) => {
+    req.onsuccess = () => resolve();
+    req.onerror = () => reject(req.error);
+    // another window still holds the store open; the delete goes through once it closes
+    req.onblocked = () => reject(new Error("Close the kiosk in every other window or tab, then reset again."));
+  });
+}
@@ -0,0 +1,82 @@
+import type { DB, Employee } from "./types";
+import { nowISO } from "./util";
+
+/* ============================================================================
+   EMPLOYEE MANAGEMENT
+   - Directory search (name, employee ID, card number) and sort
+   - Moving an employee between sites of the same org keeps their punches
+     where they were recorded; employee IDs stay unique per site
+   - Privacy erase: name, phone, address, profile photo, punch selfies,
+     biometric, card and PIN are removed and the record is disabled for
+     good. The employee ID (the payroll file number) and the punches stay,
+     so past hours can still be paid and audited. Their scheduled shifts
+     are dropped and audit log details that named them are redacted
+============================================================================ */
+
+export type EmployeeSort = "name" | "employeeId" | "status" | "createdAt";
+
+export const EMPLOYEE_SORT_LABELS: Record<EmployeeSort, string> = {
+  name: "Name",
+  employeeId: "Employee ID",
+  status: "Status",
+  createdAt: "Newest first",
+};
+
+export const ERASED_NAME = { firstName: "Erased", lastName: "employee" };
+
+export const fullName = (e: Employee) => `${e.firstName} ${e.lastName}`;
+
+export function searchEmployees(list: Employee[], query: string) {
+  const q = query.trim().toLowerCase();
+  if (!q) return list;
+  return list.filter((e) => [fullName(e), e.employeeId, e.badgeId || ""].some((s) => s.toLowerCase().includes(q)));
+}
+
+const STATUS_ORDER: Record<Employee["status"], number> = { pending: 0, active: 1, disabled: 2 };
+
+export function sortEmployees(list: Employee[], by: EmployeeSort) {
+  const byName = (a: Employee, b: Employee) =>
+    a.lastName.localeCompare(b.lastName) || a.firstName.localeCompare(b.firstName);
+  const cmp: Record<EmployeeSort, (a: Employee, b: Employee) => number> = {
+    name: byName,
+    employeeId: (a, b) => a.employeeId.localeCompare(b.employeeId, undefined, { numeric: true }),
+    status: (a, b) => STATUS_ORDER[a.status] - STATUS_ORDER[b.status] || byName(a, b),
+    createdAt: (a, b) => b.createdAt.localeCompare(a.createdAt),
+  };
+  return [...list].sort(cmp[by]);
+}
+
+/** Employee moved to `siteId`; throws when the site already has someone with the same employee ID. */
+export function moveEmployee(employees: Employee[], emp: Employee, siteId: string): Employee[] {
+  const target = siteId.trim();
+  if (!target) throw new Error("Enter a site ID.");
+  if (target === emp.siteId) throw new Error(`${fullName(emp)} is already at ${target}.`);
+  const clash = employees.find(
+    (e) => e.id !== emp.id && e.orgId === emp.orgId && e.siteId === target && e.employeeId.toLowerCase() === emp.employeeId.toLowerCase()
+  );
+  if (clash) throw new Error(`Employee ID ${emp.employeeId} is already used at ${target} by ${fullName(clash)}.`);
+  return employees.map((e) => (e.id === emp.id ? { ...e, siteId: target } : e));
+}
+
+export function eraseEmployee(db: DB, emp: Employee): DB {
+  const erased: Employee = {
+    id: emp.id,
+    orgId: emp.orgId,
+    siteId: emp.siteId,
+    employeeId: emp.employeeId,
+    ...ERASED_NAME,
+    status: "disabled",
+    createdAt: emp.createdAt,
+    erasedAt: nowISO(),
+  };
+  // selfies and a pending match's probe aren't part of the event hash (chain.ts), so dropping them keeps the chain intact
+  const events = db.events.map((e) => {
+    if (e.employeeId !== emp.id) return e;
+    const out = e.selfie ? { ...e, selfie: undefined } : e;
+    return e.faceMatch?.probe ? { ...out, faceMatch: { ...e.faceMatch, probe: undefined } } : out;
+  });
+  const name = fullName(emp);
+  const audit = db.audit.map((a) => (a.detail?.includes(name) ? { ...a, detail: a.detail.split(name).join("[erased]") } : a));
+  const schedules = db.schedules.filter((r) => r.employeeId !== emp.id);
+  return { ...db, employees: db.employees.map((e) => (e.id === emp.id ? erased : e)), events, audit, schedules };
+}
@@ -0,0 +1,65 @@
+import { fromB64url, toB64url } from "./util";
+
+/* ============================================================================
+   DEVICE ENROLLMENT TOKENS
+   - Token: BWE1.<payload>.<signature>, both parts base64url
+   - payload = JSON { org, site, exp, iat? } with exp/iat in Unix seconds
+   - signature = ECDSA P-256 / SHA-256 (raw r||s, as WebCrypto produces)
+     over "BWE1.<payload>", made by the admin portal's private key; the
+     kiosk only holds the public key (DeviceSettings.enrollmentPublicKey)
+   - scripts/enrollment-token.js mints keys and tokens for local testing
+   - Each enrollment generates a fresh device ID
+============================================================================ */
+
+const PREFIX = "BWE1";
+const ALG = { name: "ECDSA", namedCurve: "P-256" } as const;
+
+export interface EnrollmentClaims {
+  orgId: string;
+  siteId: string;
+  expiresAt: string;
+}
+
+export const newDeviceId = () => `dev-${crypto.randomUUID()}`;
+
+export const validPublicKey = (key: string) => /^[A-Za-z0-9_-]{80,200}$/.test(key.trim());
+
+/** Verified claims of `token`; throws with a user-facing message when it can't be used. */
+export async function verifyEnrollmentToken(publicKey: string, token: string, now = Date.now()): Promise<EnrollmentClaims> {
+  const parts = token.trim().split(".");
+  if (parts.length !== 3 || parts[0] !== PREFIX) throw new Error("Not an enrollment token.");
+
+  let key: CryptoKey;
+  try {
+    key = await crypto.subtle.importKey("spki", fromB64url(publicKey.trim()), ALG, false, ["verify"]);
+  } catch {
+    throw new Error("The configured enrollment public key is invalid.");
+  }
+  const signed = new TextEncoder().encode(`${parts[0]}.${parts[1]}`);
+  let ok = false;
+  try {
+    ok = await crypto.subtle.verify({ name: "ECDSA", hash: "SHA-256" }, key, fromB64url(parts[2]), signed);
+  } catch {
+    ok = false;
+  }
+  if (!ok) throw new Error("Token signature is not valid for this organization's key.");
+
+  let claims: { org?: unknown; site?: unknown; exp?: unknown };
+  try {
+    claims = JSON.parse(new TextDecoder().decode(fromB64url(parts[1])));
+  } catch {
+    throw new Error("Token payload is unreadable.");
+  }
+  const { org, site, exp } = claims;
+  if (typeof org !== "string" || !org || typeof site !== "string" || !site || typeof exp !== "number") {
+    throw new Error("Token is missing its organization, site or expiry.");
+  }
+  if (exp * 1000 <= now) throw new Error(`Token expired ${new Date(exp * 1000).toLocaleString()}.`);
+  return { orgId: org, siteId: site, expiresAt: new Date(exp * 1000).toISOString() };
+}
+
+/** Token fingerprint kept after enrollment, so the audit log can name the token without storing it. */
+export async function tokenFingerprint(token: string) {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token.trim()));
+  return toB64url(new Uint8Array(digest).slice(0, 9));
+}
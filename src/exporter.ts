@@ -0,0 +1,257 @@
+import { describeAmendment, liveEvents } from "./corrections";
+import { buildShifts, missedMeal, startOfWeek, workedHours, type Shift } from "./timesheet";
+import type { Employee, EventRecord } from "./types";
+
+/* ============================================================================
+   EXPORT BUILDER
+   - Row level: one row per punch, per shift, or per employee
+   - Each level has its own column catalogue; presets either let the user
+     pick columns (generic CSV / JSON) or fix rows + columns to a payroll
+     provider's import layout
+   - Date range is inclusive, in local calendar days. Punch rows are picked
+     by timestamp; shift and employee rows by shift start, so a shift that
+     crosses midnight at the end of the range stays whole
+   - Times are written as local "YYYY-MM-DD HH:mm:ss" or UTC ISO 8601
+   - CSV fields are quoted whenever they contain a delimiter, quote or line
+     break, and text cells starting with = + - @ are prefixed with ' so
+     spreadsheets don't evaluate them
+============================================================================ */
+
+export const OVERTIME_WEEKLY_HOURS = 40;
+
+export type RowLevel = "event" | "shift" | "employee";
+export type TimeZoneMode = "local" | "utc";
+type CellType = "text" | "number" | "time" | "bool";
+type Cell = string | number | boolean | undefined;
+
+export const ROW_LEVEL_LABELS: Record<RowLevel, string> = {
+  event: "One row per punch",
+  shift: "One row per shift",
+  employee: "One row per employee",
+};
+
+interface Ctx {
+  employees: Map<string, Employee>;
+  mealAfter?: number; // device meal threshold (hours)
+}
+
+interface EmployeeTotals {
+  employeeId: string;
+  shifts: Shift[];
+  hours: number;
+  regular: number;
+  overtime: number;
+  missedMeals: number;
+}
+
+interface Column<R> {
+  key: string;
+  label: string;
+  type: CellType;
+  value: (row: R, ctx: Ctx) => Cell;
+}
+
+const empName = (id: string, ctx: Ctx) => {
+  const e = ctx.employees.get(id);
+  return e ? `${e.firstName} ${e.lastName}` : "";
+};
+const empBizId = (id: string, ctx: Ctx) => ctx.employees.get(id)?.employeeId || "";
+const round2 = (n: number) => Math.round(n * 100) / 100;
+const unpaidBreakMinutes = (s: Shift) =>
+  Math.round(s.breaks.filter((b) => b.kind === "meal").reduce((m, b) => m + (b.end - b.start), 0) / 60_000);
+
+const EVENT_COLUMNS: Column<EventRecord>[] = [
+  { key: "eventId", label: "Event ID", type: "text", value: (e) => e.id },
+  { key: "employeeName", label: "Employee name", type: "text", value: (e, c) => empName(e.employeeId, c) },
+  { key: "employeeId", label: "Employee ID", type: "text", value: (e, c) => empBizId(e.employeeId, c) },
+  { key: "siteId", label: "Site", type: "text", value: (e) => e.siteId },
+  { key: "deviceId", label: "Device", type: "text", value: (e) => e.deviceId },
+  { key: "type", label: "Punch type", type: "text", value: (e) => e.type },
+  { key: "timestamp", label: "Timestamp", type: "time", value: (e) => e.ts },
+  { key: "identity", label: "Identified by", type: "text", value: (e) => e.factors.identity },
+  { key: "biometric", label: "Biometric", type: "text", value: (e) => e.factors.biometric },
+  { key: "synced", label: "Synced", type: "bool", value: (e) => e.synced },
+  { key: "hasSelfie", label: "Has selfie", type: "bool", value: (e) => !!e.selfie },
+  { key: "exception", label: "Exception", type: "text", value: (e) => e.exception?.code },
+  { key: "voided", label: "Voided", type: "bool", value: (e) => !!e.voided },
+  {
+    key: "amendments",
+    label: "Amendments",
+    type: "text",
+    value: (e) => (e.amendments || []).map((a) => describeAmendment(a, { iso: true })).join(" | "),
+  },
+  { key: "offlineSeq", label: "Sequence", type: "number", value: (e) => e.offlineSeq },
+  { key: "prevHash", label: "Previous hash", type: "text", value: (e) => e.prevHash },
+  { key: "hash", label: "Hash", type: "text", value: (e) => e.hash },
+];
+
+const SHIFT_COLUMNS: Column<Shift>[] = [
+  { key: "employeeName", label: "Employee name", type: "text", value: (s, c) => empName(s.employeeId, c) },
+  { key: "employeeId", label: "Employee ID", type: "text", value: (s, c) => empBizId(s.employeeId, c) },
+  { key: "siteId", label: "Site", type: "text", value: (s) => s.clockIn.siteId },
+  { key: "clockIn", label: "Clock in", type: "time", value: (s) => s.clockIn.ts },
+  { key: "clockOut", label: "Clock out", type: "time", value: (s) => s.clockOut?.ts },
+  { key: "unpaidBreakMinutes", label: "Unpaid break (min)", type: "number", value: unpaidBreakMinutes },
+  { key: "paidHours", label: "Paid hours", type: "number", value: (s) => round2(workedHours(s)) },
+  { key: "missedMeal", label: "Missed meal", type: "bool", value: (s, c) => missedMeal(s, c.mealAfter) },
+  { key: "open", label: "Still open", type: "bool", value: (s) => !s.clockOut },
+];
+
+const EMPLOYEE_COLUMNS: Column<EmployeeTotals>[] = [
+  { key: "employeeName", label: "Employee name", type: "text", value: (t, c) => empName(t.employeeId, c) },
+  { key: "employeeId", label: "Employee ID", type: "text", value: (t, c) => empBizId(t.employeeId, c) },
+  { key: "shifts", label: "Shifts", type: "number", value: (t) => t.shifts.length },
+  { key: "hours", label: "Paid hours", type: "number", value: (t) => round2(t.hours) },
+  { key: "regularHours", label: "Regular hours", type: "number", value: (t) => round2(t.regular) },
+  { key: "overtimeHours", label: "Overtime hours", type: "number", value: (t) => round2(t.overtime) },
+  { key: "missedMeals", label: "Missed meals", type: "number", value: (t) => t.missedMeals },
+];
+
+const COLUMNS = { event: EVENT_COLUMNS, shift: SHIFT_COLUMNS, employee: EMPLOYEE_COLUMNS } as const;
+
+export const columnsFor = (level: RowLevel) =>
+  (COLUMNS[level] as Column<unknown>[]).map(({ key, label }) => ({ key, label }));
+
+/* --------------------------------- Presets -------------------------------- */
+export interface Table {
+  headers: string[];
+  keys: string[];
+  types: CellType[];
+  rows: Cell[][];
+}
+
+export interface ExportOutput {
+  content: string;
+  mime: string;
+  ext: string;
+}
+
+export interface ExportPreset {
+  id: string;
+  label: string;
+  /** Fixed layouts ignore the user's row level and column choice. */
+  fixed?: { level: RowLevel; columns: { key: string; header: string }[] };
+  render: (t: Table, tz: TimeZoneMode) => ExportOutput;
+}
+
+function fmtTime(iso: string, tz: TimeZoneMode) {
+  if (tz === "utc") return new Date(iso).toISOString();
+  const d = new Date(iso);
+  const p = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${p(d.getMonth() + 1)}-${p(d.getDate())} ${p(d.getHours())}:${p(d.getMinutes())}:${p(d.getSeconds())}`;
+}
+
+function csvCell(v: Cell, type: CellType, tz: TimeZoneMode) {
+  if (v === undefined || v === "") return "";
+  let s = type === "time" ? fmtTime(String(v), tz) : String(v);
+  if (type === "text" && /^[=+\-@\t\r]/.test(s)) s = `'${s}`;
+  return /[",\r\n]|^\s|\s$/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export function toCSV(t: Table, tz: TimeZoneMode) {
+  const head = t.headers.map((h) => csvCell(h, "text", tz)).join(",");
+  const body = t.rows.map((r) => r.map((v, i) => csvCell(v, t.types[i], tz)).join(","));
+  // CRLF per RFC 4180; spreadsheet and payroll importers accept it everywhere
+  return [head, ...body].join("\r\n") + "\r\n";
+}
+
+function toJSON(t: Table, tz: TimeZoneMode) {
+  const objects = t.rows.map((r) =>
+    Object.fromEntries(
+      r.map((v, i) => [t.keys[i], t.types[i] === "time" && v ? fmtTime(String(v), tz) : v === undefined ? null : v])
+    )
+  );
+  return JSON.stringify(objects, null, 2);
+}
+
+export const EXPORT_PRESETS: ExportPreset[] = [
+  {
+    id: "csv",
+    label: "Generic CSV",
+    render: (t, tz) => ({ content: toCSV(t, tz), mime: "text/csv;charset=utf-8", ext: "csv" }),
+  },
+  {
+    id: "json",
+    label: "JSON",
+    render: (t, tz) => ({ content: toJSON(t, tz), mime: "application/json", ext: "json" }),
+  },
+  {
+    // ADP Workforce Now pay data import: one line per employee with regular and overtime hours
+    id: "adp",
+    label: "ADP pay data (CSV)",
+    fixed: {
+      level: "employee",
+      columns: [
+        { key: "employeeId", header: "File #" },
+        { key: "employeeName", header: "Employee Name" },
+        { key: "regularHours", header: "Reg Hours" },
+        { key: "overtimeHours", header: "O/T Hours" },
+      ],
+    },
+    render: (t, tz) => ({ content: toCSV(t, tz), mime: "text/csv;charset=utf-8", ext: "csv" }),
+  },
+];
+
+/* --------------------------------- Build ---------------------------------- */
+export interface ExportRequest {
+  preset: ExportPreset;
+  level: RowLevel;
+  columns: string[]; // keys, in catalogue order
+  from: Date; // local midnight, inclusive
+  to: Date; // local midnight of the last day, inclusive
+  tz: TimeZoneMode;
+}
+
+function employeeTotals(shifts: Shift[], mealAfter?: number): EmployeeTotals[] {
+  const byEmp = new Map<string, Shift[]>();
+  for (const s of shifts) byEmp.set(s.employeeId, [...(byEmp.get(s.employeeId) || []), s]);
+  return [...byEmp].map(([employeeId, list]) => {
+    // overtime is counted per Monday-start workweek (within the exported range)
+    const weeks = new Map<number, number>();
+    for (const s of list) {
+      const wk = startOfWeek(new Date(s.start)).getTime();
+      weeks.set(wk, (weeks.get(wk) || 0) + workedHours(s));
+    }
+    const hours = [...weeks.values()].reduce((a, b) => a + b, 0);
+    const overtime = [...weeks.values()].reduce((a, h) => a + Math.max(0, h - OVERTIME_WEEKLY_HOURS), 0);
+    return {
+      employeeId,
+      shifts: list,
+      hours,
+      regular: hours - overtime,
+      overtime,
+      missedMeals: list.filter((s) => missedMeal(s, mealAfter)).length,
+    };
+  });
+}
+
+export function buildExport(req: ExportRequest, events: EventRecord[], employees: Employee[], mealAfter?: number) {
+  const level = req.preset.fixed?.level || req.level;
+  const start = req.from.getTime();
+  const end = new Date(req.to.getFullYear(), req.to.getMonth(), req.to.getDate() + 1).getTime();
+  const inRange = (t: number) => t >= start && t < end;
+
+  const catalogue = COLUMNS[level] as Column<unknown>[];
+  const picked = req.preset.fixed
+    ? req.preset.fixed.columns.map((c) => ({ ...catalogue.find((x) => x.key === c.key)!, label: c.header }))
+    : catalogue.filter((c) => req.columns.includes(c.key));
+
+  let rows: unknown[];
+  if (level === "event") {
+    rows = events.filter((e) => inRange(Date.parse(e.ts))).sort((a, b) => a.ts.localeCompare(b.ts));
+  } else {
+    const shifts = buildShifts(liveEvents(events))
+      .shifts.filter((s) => inRange(s.start))
+      .sort((a, b) => a.start - b.start);
+    rows = level === "shift" ? shifts : employeeTotals(shifts, mealAfter);
+  }
+
+  const ctx: Ctx = { employees: new Map(employees.map((e) => [e.id, e])), mealAfter };
+  const table: Table = {
+    headers: picked.map((c) => c.label),
+    keys: picked.map((c) => c.key),
+    types: picked.map((c) => c.type),
+    rows: rows.map((r) => picked.map((c) => c.value(r, ctx))),
+  };
+  return { output: req.preset.render(table, req.tz), rowCount: table.rows.length };
+}
@@ -0,0 +1,265 @@
+import { useEffect, useRef } from "react";
+import { sealFaceMatch } from "./chain";
+import type { DB, FaceMatch, Keyring, SaveDB } from "./types";
+import { fromB64url, nowISO, toB64url } from "./util";
+import { decryptField, encryptField, isEncrypted, isUnlocked, useVaultUnlocked } from "./vault";
+
+/* ============================================================================
+   ON-DEVICE FACE MATCH
+   - CPU only, no model download: faces are compared with local binary
+     pattern (LBP) histograms, the classic texture descriptor for face
+     recognition (Ahonen et al.)
+   - Pipeline: find the face (the browser's FaceDetector when it exists,
+     otherwise the centre of the square selfie frame) -> 80x80 grayscale ->
+     histogram equalization -> 3x3 smoothing -> uniform LBP codes -> 59-bin
+     histogram per cell of a 6x6 grid
+   - Template = "lbp1." + base64url of the histograms quantized to bytes.
+     It is biometric data, so the employee's copy is vault-encrypted with
+     the other PII (vault.ts). A locked kiosk can't read it: the punch is
+     stored as "pending" with the selfie's template encrypted the same
+     way, and usePendingScores scores it once a manager opens the vault
+     (the late score is sealed onto the punch's chain hash, chain.ts)
+   - Score = 1 - mean chi-square distance between cells / 2, so 1 is an
+     identical image. Punches scoring under the device threshold go to the
+     manager review queue; they are never blocked
+   - This catches a different person or a photo of nothing in particular,
+     not a determined spoof; tune the threshold per site
+============================================================================ */
+
+export const DEFAULT_FACE_MATCH_THRESHOLD = 0.7;
+
+const PREFIX = "lbp1.";
+const SIZE = 80;
+const GRID = 6;
+const BINS = 59;
+
+/* ----------------------------------- LBP ---------------------------------- */
+// uniform patterns (at most two 0/1 transitions around the circle) get their own bin, the rest share bin 58
+const UNIFORM = (() => {
+  const map = new Uint8Array(256).fill(BINS - 1);
+  let next = 0;
+  for (let code = 0; code < 256; code++) {
+    let transitions = 0;
+    for (let b = 0; b < 8; b++) if (((code >> b) & 1) !== ((code >> ((b + 1) % 8)) & 1)) transitions++;
+    if (transitions <= 2) map[code] = next++;
+  }
+  return map;
+})();
+
+// 3x3 box blur, so sensor noise in flat areas doesn't flip LBP bits
+function smooth(g: Uint8Array) {
+  const out = new Uint8Array(g.length);
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      let sum = 0;
+      let n = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const xx = x + dx;
+          const yy = y + dy;
+          if (xx >= 0 && yy >= 0 && xx < SIZE && yy < SIZE) {
+            sum += g[yy * SIZE + xx];
+            n++;
+          }
+        }
+      }
+      out[y * SIZE + x] = Math.round(sum / n);
+    }
+  }
+  return out;
+}
+
+function equalize(gray: Uint8Array) {
+  const hist = new Uint32Array(256);
+  for (const v of gray) hist[v]++;
+  const cdf = new Uint32Array(256);
+  let sum = 0;
+  for (let i = 0; i < 256; i++) cdf[i] = sum += hist[i];
+  const min = cdf.find((c) => c > 0) || 0;
+  const range = Math.max(1, gray.length - min);
+  return gray.map((v) => Math.round(((cdf[v] - min) / range) * 255));
+}
+
+/** Template of a SIZE x SIZE grayscale face crop. */
+export function templateFromGray(pixels: Uint8Array): string {
+  const g = smooth(equalize(pixels));
+  const cell = Math.floor((SIZE - 2) / GRID);
+  const hist = new Float32Array(GRID * GRID * BINS);
+  const offsets = [[-1, -1], [0, -1], [1, -1], [1, 0], [1, 1], [0, 1], [-1, 1], [-1, 0]];
+  for (let y = 1; y < SIZE - 1; y++) {
+    for (let x = 1; x < SIZE - 1; x++) {
+      const c = g[y * SIZE + x];
+      let code = 0;
+      offsets.forEach(([dx, dy], b) => {
+        if (g[(y + dy) * SIZE + x + dx] >= c) code |= 1 << b;
+      });
+      const cx = Math.min(GRID - 1, Math.floor((x - 1) / cell));
+      const cy = Math.min(GRID - 1, Math.floor((y - 1) / cell));
+      hist[(cy * GRID + cx) * BINS + UNIFORM[code]]++;
+    }
+  }
+  const bytes = new Uint8Array(hist.length);
+  for (let c = 0; c < GRID * GRID; c++) {
+    let total = 0;
+    for (let b = 0; b < BINS; b++) total += hist[c * BINS + b];
+    for (let b = 0; b < BINS; b++) bytes[c * BINS + b] = Math.round((hist[c * BINS + b] / (total || 1)) * 255);
+  }
+  return PREFIX + toB64url(bytes);
+}
+
+export const validTemplate = (t?: string) => !!t && t.startsWith(PREFIX);
+
+/** Similarity of two templates in [0, 1]. */
+export function faceSimilarity(a: string, b: string) {
+  const x = fromB64url(a.slice(PREFIX.length));
+  const y = fromB64url(b.slice(PREFIX.length));
+  if (x.length !== y.length) return 0;
+  let distance = 0;
+  for (let c = 0; c < GRID * GRID; c++) {
+    let d = 0;
+    for (let i = c * BINS; i < (c + 1) * BINS; i++) {
+      const p = x[i] / 255;
+      const q = y[i] / 255;
+      if (p + q > 0) d += ((p - q) * (p - q)) / (p + q);
+    }
+    distance += d;
+  }
+  return Math.max(0, 1 - distance / (GRID * GRID) / 2);
+}
+
+/* --------------------------------- Images --------------------------------- */
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+type FaceDetectorCtor = new (o?: { fastMode?: boolean; maxDetectedFaces?: number }) => {
+  detect: (img: ImageBitmap) => Promise<{ boundingBox: DOMRectReadOnly }[]>;
+};
+
+async function findFace(img: ImageBitmap): Promise<Box> {
+  const Detector = (globalThis as unknown as { FaceDetector?: FaceDetectorCtor }).FaceDetector;
+  if (Detector) {
+    try {
+      const [face] = await new Detector({ fastMode: true, maxDetectedFaces: 1 }).detect(img);
+      if (face) {
+        const { x, y, width, height } = face.boundingBox;
+        const pad = width * 0.1;
+        return { x: x - pad, y: y - pad, width: width + 2 * pad, height: height + 2 * pad };
+      }
+    } catch {
+      // fall through to the centre crop
+    }
+  }
+  // kiosk selfies are square and framed on the face: keep the middle 70%
+  const side = Math.min(img.width, img.height) * 0.7;
+  return { x: (img.width - side) / 2, y: (img.height - side) / 2, width: side, height: side };
+}
+
+/** LBP template of the face in a selfie data URL. */
+export async function faceTemplate(dataUrl: string): Promise<string> {
+  const img = await createImageBitmap(await (await fetch(dataUrl)).blob());
+  try {
+    const box = await findFace(img);
+    const canvas = document.createElement("canvas");
+    canvas.width = SIZE;
+    canvas.height = SIZE;
+    const ctx = canvas.getContext("2d", { willReadFrequently: true });
+    if (!ctx) throw new Error("Canvas is not available");
+    ctx.drawImage(img, box.x, box.y, box.width, box.height, 0, 0, SIZE, SIZE);
+    const { data } = ctx.getImageData(0, 0, SIZE, SIZE);
+    const gray = new Uint8Array(SIZE * SIZE);
+    for (let i = 0; i < gray.length; i++) {
+      gray[i] = Math.round(0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]);
+    }
+    return templateFromGray(gray);
+  } finally {
+    img.close();
+  }
+}
+
+/** Template for a profile photo, or undefined when there is none or it can't be read. */
+export async function profileTemplate(photo: string | undefined) {
+  return photo ? faceTemplate(photo).catch(() => undefined) : undefined;
+}
+
+function scored(template: string, probe: string, threshold: number): FaceMatch {
+  if (!validTemplate(template)) return { result: "no-profile" };
+  const score = Math.round(faceSimilarity(template, probe) * 1000) / 1000;
+  return { result: score >= threshold ? "match" : "low", score };
+}
+
+/**
+ * Face match to store on a punch; undefined when the punch has no selfie.
+ * With the vault locked an encrypted profile template leaves it "pending",
+ * the selfie's template sealed under `keyring`.
+ */
+export async function matchSelfie(
+  template: string | undefined,
+  selfie: string | undefined,
+  threshold: number,
+  keyring?: Keyring
+): Promise<FaceMatch | undefined> {
+  if (!selfie) return undefined;
+  if (!template) return { result: "no-profile" };
+  try {
+    const probe = await faceTemplate(selfie);
+    if (isEncrypted(template) && !isUnlocked()) {
+      return keyring ? { result: "pending", probe: await encryptField(keyring, probe) } : { result: "no-profile" };
+    }
+    return scored(await decryptField(template), probe, threshold);
+  } catch {
+    // an unreadable selfie is worth a look too
+    return { result: "low", score: 0 };
+  }
+}
+
+/** Score a pending match against the employee's template. Requires an unlocked vault. */
+export async function scorePending(template: string | undefined, match: FaceMatch, threshold: number): Promise<FaceMatch> {
+  if (!template || !match.probe) return { result: "no-profile" };
+  return scored(await decryptField(template), await decryptField(match.probe), threshold);
+}
+
+/* --------------------------------- Hook ----------------------------------- */
+/** Scores punches a locked kiosk left pending, while a manager is signed in with the vault open. */
+export function usePendingScores(db: DB | null, save: SaveDB, signedIn: boolean) {
+  const dbRef = useRef(db);
+  const saveRef = useRef(save);
+  dbRef.current = db;
+  saveRef.current = save;
+  const pending = db ? db.events.filter((e) => e.faceMatch?.result === "pending").length : 0;
+  // the vault can open after sign-in (recovery key)
+  const unlocked = useVaultUnlocked();
+
+  useEffect(() => {
+    const cur = dbRef.current;
+    if (!signedIn || !pending || !cur || !unlocked) return;
+    let cancelled = false;
+    const threshold = cur.device.faceMatchThreshold ?? DEFAULT_FACE_MATCH_THRESHOLD;
+    const templates = new Map(cur.employees.map((e) => [e.id, e.faceTemplate]));
+    (async () => {
+      const scores = new Map<string, FaceMatch>();
+      for (const e of cur.events) {
+        if (e.faceMatch?.result !== "pending") continue;
+        try {
+          const scored = await scorePending(templates.get(e.employeeId), e.faceMatch, threshold);
+          scores.set(e.id, await sealFaceMatch(e, { ...scored, scoredAt: nowISO() }));
+        } catch {
+          // locked again, or unreadable: it stays pending
+        }
+      }
+      if (cancelled || !scores.size) return;
+      saveRef.current((latest) => ({
+        ...latest,
+        events: latest.events.map((e) =>
+          e.faceMatch?.result === "pending" && scores.has(e.id) ? { ...e, faceMatch: scores.get(e.id) } : e
+        ),
+      }));
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [signedIn, pending, unlocked]);
+}
@@ -0,0 +1,112 @@
+import type { LivenessChallenge } from "./types";
+
+/* ============================================================================
+   SELFIE LIVENESS CHECK
+   - Challenge-response on the kiosk camera: the employee is asked to blink
+     or to turn their head one way, and frames sampled while they do it are
+     compared on the CPU (no model, nothing leaves the device)
+   - Frames are the centre square of the video, downscaled to SIZE x SIZE
+     grayscale with the mean brightness removed (auto-exposure changes
+     don't count as movement)
+   - blink      = a frame-to-frame change in the eye band (upper middle of
+                  the face) well above the change in the rest of the frame,
+                  so a printed photo waved in front of the camera fails
+   - turn-left/ = the middle of the face shifts sideways from the first
+     turn-right   frame (best-aligning offset) by at least MIN_TURN in the
+                  expected direction (the camera image is not mirrored:
+                  the employee's left is the image's right)
+   - A video of the employee on another phone can pass; this raises the bar
+     for photos, it isn't anti-spoofing hardware. Device policy decides
+     whether a failed check blocks the punch or flags it
+============================================================================ */
+
+export const LIVENESS_PROMPTS: Record<LivenessChallenge, string> = {
+  blink: "Blink a couple of times",
+  "turn-left": "Slowly turn your head to your left",
+  "turn-right": "Slowly turn your head to your right",
+};
+
+export const LIVENESS_TIMEOUT_MS = 6000;
+export const LIVENESS_INTERVAL_MS = 120;
+
+const SIZE = 64;
+const MIN_TURN = 5; // px at SIZE, about 8% of the frame
+const MAX_SHIFT = 16;
+const BLINK_MIN = 6; // mean absolute change (0-255) in the eye band
+const BLINK_RATIO = 2.5; // eye band change vs. the rest of the frame
+
+export function pickChallenge(random = Math.random): LivenessChallenge {
+  const all = Object.keys(LIVENESS_PROMPTS) as LivenessChallenge[];
+  return all[Math.min(all.length - 1, Math.floor(random() * all.length))];
+}
+
+/* --------------------------------- Frames --------------------------------- */
+/** Centre square of an RGBA frame as SIZE x SIZE grayscale, mean removed. */
+export function grayFrame(img: { data: Uint8ClampedArray; width: number; height: number }): Float32Array {
+  const side = Math.min(img.width, img.height);
+  const x0 = Math.floor((img.width - side) / 2);
+  const y0 = Math.floor((img.height - side) / 2);
+  const out = new Float32Array(SIZE * SIZE);
+  let sum = 0;
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      const i = ((y0 + Math.floor(((y + 0.5) * side) / SIZE)) * img.width + x0 + Math.floor(((x + 0.5) * side) / SIZE)) * 4;
+      const v = 0.299 * img.data[i] + 0.587 * img.data[i + 1] + 0.114 * img.data[i + 2];
+      out[y * SIZE + x] = v;
+      sum += v;
+    }
+  }
+  const mean = sum / out.length;
+  return out.map((v) => v - mean);
+}
+
+/* ---------------------------------- Blink --------------------------------- */
+const EYES = { top: Math.round(SIZE * 0.25), bottom: Math.round(SIZE * 0.5), left: Math.round(SIZE * 0.2), right: Math.round(SIZE * 0.8) };
+
+function blinked(a: Float32Array, b: Float32Array) {
+  let eye = 0;
+  let eyeN = 0;
+  let rest = 0;
+  let restN = 0;
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      const d = Math.abs(a[y * SIZE + x] - b[y * SIZE + x]);
+      if (y >= EYES.top && y < EYES.bottom && x >= EYES.left && x < EYES.right) {
+        eye += d;
+        eyeN++;
+      } else {
+        rest += d;
+        restN++;
+      }
+    }
+  }
+  eye /= eyeN;
+  rest /= restN;
+  return eye >= BLINK_MIN && eye >= BLINK_RATIO * rest;
+}
+
+/* ---------------------------------- Turn ---------------------------------- */
+/** How far (px) the middle of `b` sits to the right of `a`: the horizontal offset that lines them up best. */
+function shiftBetween(a: Float32Array, b: Float32Array) {
+  let best = 0;
+  let bestCost = Infinity;
+  for (let s = -MAX_SHIFT; s <= MAX_SHIFT; s++) {
+    let cost = 0;
+    for (let y = Math.round(SIZE * 0.2); y < Math.round(SIZE * 0.8); y++) {
+      for (let x = MAX_SHIFT; x < SIZE - MAX_SHIFT; x++) cost += Math.abs(b[y * SIZE + x + s] - a[y * SIZE + x]);
+    }
+    if (cost < bestCost) {
+      bestCost = cost;
+      best = s;
+    }
+  }
+  return best;
+}
+
+/** Whether the frames collected so far (oldest first, from grayFrame) answer the challenge. */
+export function livenessPassed(challenge: LivenessChallenge, frames: Float32Array[]) {
+  if (frames.length < 2) return false;
+  if (challenge === "blink") return frames.slice(1).some((f, i) => blinked(frames[i], f));
+  const direction = challenge === "turn-left" ? 1 : -1;
+  return frames.slice(1).some((f) => shiftBetween(frames[0], f) * direction >= MIN_TURN);
+}
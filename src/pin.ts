@@ -0,0 +1,47 @@
+import type { PinCredential } from "./types";
+import { fromB64url, toB64url } from "./util";
+
+/* ============================================================================
+   EMPLOYEE PINS
+   - PBKDF2-SHA256 with a per-employee random salt; iterations are stored
+     with the hash so they can be raised later without breaking old PINs
+   - PIN_MAX_ATTEMPTS wrong entries lock the PIN for PIN_LOCKOUT_MINUTES;
+     a manager reset clears the lock
+============================================================================ */
+
+const ITERATIONS = 100_000;
+export const PIN_MAX_ATTEMPTS = 5;
+export const PIN_LOCKOUT_MINUTES = 15;
+
+export const validPin = (pin: string) => /^\d{4,8}$/.test(pin);
+
+async function derive(pin: string, salt: Uint8Array<ArrayBuffer>, iterations: number) {
+  const key = await crypto.subtle.importKey("raw", new TextEncoder().encode(pin), "PBKDF2", false, ["deriveBits"]);
+  const bits = await crypto.subtle.deriveBits({ name: "PBKDF2", hash: "SHA-256", salt, iterations }, key, 256);
+  return toB64url(bits);
+}
+
+export async function hashPin(pin: string): Promise<PinCredential> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  return { hash: await derive(pin, salt, ITERATIONS), salt: toB64url(salt), iterations: ITERATIONS, failedAttempts: 0 };
+}
+
+export function pinLockedUntil(cred: PinCredential, now = Date.now()) {
+  return cred.lockedUntil && Date.parse(cred.lockedUntil) > now ? new Date(cred.lockedUntil) : null;
+}
+
+/** Hash comparison only; no attempt counting. */
+export async function verifyPin(cred: PinCredential, pin: string) {
+  return (await derive(pin, fromB64url(cred.salt), cred.iterations)) === cred.hash;
+}
+
+/** Check `pin` and return the updated credential (attempt counter / lockout) to persist. */
+export async function checkPin(cred: PinCredential, pin: string, now = Date.now()) {
+  if (pinLockedUntil(cred, now)) return { ok: false, next: cred };
+  const ok = await verifyPin(cred, pin);
+  if (ok) return { ok, next: { ...cred, failedAttempts: 0, lockedUntil: undefined } };
+  const failedAttempts = cred.failedAttempts + 1;
+  const lockedUntil =
+    failedAttempts >= PIN_MAX_ATTEMPTS ? new Date(now + PIN_LOCKOUT_MINUTES * 60_000).toISOString() : undefined;
+  return { ok, next: { ...cred, failedAttempts: lockedUntil ? 0 : failedAttempts, lockedUntil } };
+}
@@ -0,0 +1,82 @@
+import { MAX_SHIFT_HOURS } from "./timesheet";
+import type { EventRecord, PunchException, PunchStatus, PunchType } from "./types";
+
+/* ============================================================================
+   PUNCH STATE MACHINE
+   - An employee's status is derived from their latest punch
+   - TRANSITIONS lists the punches allowed from each status
+   - An open shift whose last punch is older than MAX_SHIFT_HOURS counts as
+     a forgotten clock-out, so the next shift can start cleanly (timesheets
+     flag the orphan)
+============================================================================ */
+
+const TRANSITIONS: Record<PunchStatus, Partial<Record<PunchType, PunchStatus>>> = {
+  out: { "clock-in": "in" },
+  in: { "clock-out": "out", "meal-start": "meal", "break-start": "break" },
+  break: { "break-end": "in" },
+  meal: { "meal-end": "in" },
+};
+
+export const PUNCH_LABELS: Record<PunchType, string> = {
+  "clock-in": "Clock-in",
+  "clock-out": "Clock-out",
+  "break-start": "Start break",
+  "break-end": "End break",
+  "meal-start": "Start meal",
+  "meal-end": "End meal",
+};
+
+const STATUS_LABELS: Record<PunchStatus, string> = {
+  out: "clocked out",
+  in: "clocked in",
+  break: "on a break",
+  meal: "on a meal break",
+};
+
+export interface PunchState {
+  status: PunchStatus;
+  last?: EventRecord; // punch that put the employee in `status`
+}
+
+export function punchState(events: EventRecord[], employeeId: string, now = Date.now()): PunchState {
+  let last: EventRecord | undefined;
+  for (const e of events) if (e.employeeId === employeeId && (!last || e.ts > last.ts)) last = e;
+  if (!last) return { status: "out" };
+  if (last.type !== "clock-out" && now - Date.parse(last.ts) > MAX_SHIFT_HOURS * 60 * 60 * 1000) {
+    return { status: "out" };
+  }
+  return { status: statusAfter(last.type), last };
+}
+
+/** Status an employee is in right after a punch of `type`, regardless of where they came from. */
+function statusAfter(type: PunchType): PunchStatus {
+  for (const from of Object.keys(TRANSITIONS) as PunchStatus[]) {
+    const to = TRANSITIONS[from][type];
+    if (to) return to;
+  }
+  return "out";
+}
+
+export function allowedPunches(state: PunchState) {
+  return Object.keys(TRANSITIONS[state.status]) as PunchType[];
+}
+
+export function suggestedPunch(state: PunchState): PunchType {
+  return allowedPunches(state)[0];
+}
+
+/** Exception to record if `type` is punched from `state`, or undefined if the transition is valid. */
+export function transitionException(state: PunchState, type: PunchType): PunchException | undefined {
+  if (TRANSITIONS[state.status][type]) return undefined;
+  return { code: "invalid-transition", from: state.status, attempted: type };
+}
+
+export function describeState(state: PunchState) {
+  const since = state.last ? new Date(state.last.ts).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" }) : "";
+  if (state.status === "out") return state.last ? `You clocked out at ${since}` : "You are not clocked in";
+  return `You are ${STATUS_LABELS[state.status]} since ${since}`;
+}
+
+export function describeException(x: PunchException) {
+  return `${x.attempted} while ${STATUS_LABELS[x.from]}`;
+}
@@ -0,0 +1,191 @@
+import { useEffect, useRef } from "react";
+import type { DB, DeviceSettings, Employee, EventRecord, PurgeRecord, RetentionClass, SaveDB } from "./types";
+import { audit } from "./accounts";
+import { nowISO, uid } from "./util";
+
+/* ============================================================================
+   DATA RETENTION
+   - Each data class has its own duration in days (device.retention); punch
+     selfies keep their selfieRetentionWeeks setting. No duration = kept
+       events        punches, oldest first only, so the hash chain stays
+                     verifiable from device.chainAnchor (chain.ts)
+       selfies       punch selfie images (the punch stays)
+       profilePhotos profile photo + face template of pending and disabled
+                     employees, counted from their last activity, so an
+                     unapproved registration doesn't keep its photo forever
+       employees     pending/disabled records, counted from their last
+                     activity, once none of their punches are left on the
+                     device (their schedules go with them)
+       rollCalls     saved roll call sheets, the only export kept on the
+                     device: payroll/CSV exports are downloaded, never
+                     stored here, and their "export" audit entries stay
+                     with the rest of the audit log
+   - Only synced data is removed: punches and selfies wait for the server's
+     acknowledgement (a device without a sync endpoint still expires
+     selfies by age, as it always has)
+   - A legal hold on an employee suspends every purge touching them,
+     including roll call sheets they appear on
+   - Purges run on load, when the policy changes and every
+     PURGE_INTERVAL_MS, always against the latest store state (a punch
+     saved meanwhile chains onto whatever is left, or onto the anchor);
+     each run that removes anything appends a PurgeRecord (counts, policy
+     in force, held/waiting items) and a "data-purge" audit entry
+============================================================================ */
+
+export const RETENTION_CLASSES: RetentionClass[] = ["events", "selfies", "profilePhotos", "employees", "rollCalls"];
+
+export const RETENTION_LABELS: Record<RetentionClass, string> = {
+  events: "Punch events",
+  selfies: "Punch selfies",
+  profilePhotos: "Profile photos of pending and disabled employees",
+  employees: "Pending and disabled employee records",
+  rollCalls: "Saved roll call sheets",
+};
+
+const PURGE_INTERVAL_MS = 60 * 60_000;
+const DAY = 24 * 60 * 60_000;
+
+export function retentionDays(device: DeviceSettings, cls: RetentionClass): number | undefined {
+  return cls === "selfies" ? device.selfieRetentionWeeks * 7 : device.retention?.[cls];
+}
+
+export const onHold = (e?: Employee) => !!e?.legalHold;
+
+/** Latest of registration, erase and last punch. */
+function lastActivity(emp: Employee, lastPunch: Map<string, string>) {
+  return [emp.createdAt, emp.erasedAt, lastPunch.get(emp.id)].reduce<string>((m, t) => (t && t > m ? t : m), "");
+}
+
+/** `db` with everything past retention removed and the run logged and audited, or null when nothing was due. */
+export function runRetention(db: DB, trigger: PurgeRecord["trigger"], by?: string, now = Date.now()) {
+  const policy = Object.fromEntries(RETENTION_CLASSES.map((c) => [c, retentionDays(db.device, c) ?? null])) as PurgeRecord["policy"];
+  const due = (cls: RetentionClass, iso: string) => policy[cls] !== null && Date.parse(iso) < now - policy[cls]! * DAY;
+  const byId = new Map(db.employees.map((e) => [e.id, e]));
+  const held = (employeeId: string) => onHold(byId.get(employeeId));
+  const removed = Object.fromEntries(RETENTION_CLASSES.map((c) => [c, 0])) as PurgeRecord["removed"];
+  let heldCount = 0;
+  let waiting = 0;
+
+  // events: a prefix of the chain, stopping at the first one that has to stay
+  const gone = new Set<string>();
+  let first: EventRecord | undefined;
+  let last: EventRecord | undefined;
+  let blocked = false;
+  for (const e of [...db.events].sort((a, b) => a.offlineSeq - b.offlineSeq)) {
+    const isDue = due("events", e.ts);
+    if (isDue && held(e.employeeId)) heldCount++;
+    else if (isDue && !e.synced) waiting++;
+    else if (isDue && !blocked) {
+      gone.add(e.id);
+      first ??= e;
+      last = e;
+      continue;
+    }
+    blocked = true;
+  }
+  removed.events = gone.size;
+
+  const syncing = !!db.device.syncEndpoint;
+  const events = db.events
+    .filter((e) => !gone.has(e.id))
+    .map((e) => {
+      if (!e.selfie || !due("selfies", e.ts)) return e;
+      if (held(e.employeeId)) {
+        heldCount++;
+        return e;
+      }
+      if (syncing && !e.synced) {
+        waiting++;
+        return e;
+      }
+      removed.selfies++;
+      return { ...e, selfie: undefined };
+    });
+
+  const lastPunch = new Map<string, string>();
+  for (const e of db.events) if (e.ts > (lastPunch.get(e.employeeId) || "")) lastPunch.set(e.employeeId, e.ts);
+  const referenced = new Set(events.map((e) => e.employeeId));
+  const dropped = new Set<string>();
+  const employees = db.employees
+    .map((emp) => {
+      if (emp.status === "active" || !emp.profileSelfie || !due("profilePhotos", lastActivity(emp, lastPunch))) return emp;
+      if (onHold(emp)) {
+        heldCount++;
+        return emp;
+      }
+      removed.profilePhotos++;
+      return { ...emp, profileSelfie: undefined, faceTemplate: undefined };
+    })
+    .filter((emp) => {
+      if (emp.status === "active" || !due("employees", lastActivity(emp, lastPunch))) return true;
+      if (onHold(emp)) {
+        heldCount++;
+        return true;
+      }
+      // punches still on the device need the record for names and payroll IDs
+      if (referenced.has(emp.id)) return true;
+      dropped.add(emp.id);
+      return false;
+    });
+  removed.employees = dropped.size;
+
+  const rollCalls = db.rollCalls.filter((r) => {
+    if (!due("rollCalls", r.savedAt)) return true;
+    if (r.entries.some((x) => held(x.employeeId))) {
+      heldCount++;
+      return true;
+    }
+    removed.rollCalls++;
+    return false;
+  });
+
+  if (!RETENTION_CLASSES.some((c) => removed[c] > 0)) return null;
+  const record: PurgeRecord = {
+    id: uid(),
+    at: nowISO(),
+    trigger,
+    by,
+    policy,
+    removed,
+    held: heldCount,
+    waiting,
+    events: first && last ? { fromSeq: first.offlineSeq, toSeq: last.offlineSeq } : undefined,
+  };
+  const device = last ? { ...db.device, chainAnchor: { offlineSeq: last.offlineSeq, hash: last.hash } } : db.device;
+  const next: DB = {
+    ...db,
+    device,
+    events,
+    employees,
+    rollCalls,
+    schedules: dropped.size ? db.schedules.filter((r) => !dropped.has(r.employeeId)) : db.schedules,
+    purgeLog: [...db.purgeLog, record],
+  };
+  return { db: audit(next, by || "system", "data-purge", `${trigger}: ${describePurge(record)}`), record };
+}
+
+export function describePurge(r: PurgeRecord) {
+  const parts = RETENTION_CLASSES.filter((c) => r.removed[c]).map((c) => `${r.removed[c]} ${RETENTION_LABELS[c].toLowerCase()}`);
+  return parts.join(", ") || "nothing";
+}
+
+/* --------------------------------- Hook ----------------------------------- */
+/** Scheduled purge: once the store has loaded, whenever the policy changes, then every PURGE_INTERVAL_MS. */
+export function useScheduledPurge(db: DB | null, save: SaveDB) {
+  const dbRef = useRef(db);
+  const saveRef = useRef(save);
+  dbRef.current = db;
+  saveRef.current = save;
+  const policy = db && JSON.stringify([db.device.selfieRetentionWeeks, db.device.retention]);
+
+  useEffect(() => {
+    const run = () => {
+      // a quick check on the rendered state; the purge itself runs on the latest one
+      if (!dbRef.current || !runRetention(dbRef.current, "scheduled")) return;
+      saveRef.current((cur) => runRetention(cur, "scheduled")?.db || cur);
+    };
+    run();
+    const timer = window.setInterval(run, PURGE_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [policy]);
+}
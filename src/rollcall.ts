@@ -0,0 +1,111 @@
+import { liveEvents } from "./corrections";
+import { toCSV } from "./exporter";
+import { punchState } from "./punch";
+import type { Employee, EventRecord, PunchStatus, RollCall } from "./types";
+
+/* ============================================================================
+   ON-SITE ROSTER / ROLL CALL
+   - Who is on site = employees whose latest live punch at the site leaves
+     them clocked in, on a break or on a meal (punch.ts rules, so an open
+     shift older than MAX_SHIFT_HOURS counts as gone)
+   - During a drill, managers tick people off; saving stores a RollCall
+     record with every person who was on site and when they were accounted
+     for. Records keep internal employee ids, not names
+   - The roster prints (pop-up) and exports as CSV for the assembly point
+============================================================================ */
+
+export interface OnSite {
+  employee: Employee;
+  status: Exclude<PunchStatus, "out">;
+  clockedInAt: string; // start of the current shift
+  lastPunch: EventRecord;
+}
+
+export const ON_SITE_LABELS: Record<OnSite["status"], string> = {
+  in: "Working",
+  break: "On break",
+  meal: "On meal",
+};
+
+export function onSiteNow(employees: Employee[], events: EventRecord[], siteId: string, now = Date.now()): OnSite[] {
+  const siteEvents = liveEvents(events).filter((e) => e.siteId === siteId);
+  const list: OnSite[] = [];
+  for (const employee of employees) {
+    const own = siteEvents.filter((e) => e.employeeId === employee.id);
+    const state = punchState(own, employee.id, now);
+    if (state.status === "out" || !state.last) continue;
+    const clockIn = own.filter((e) => e.type === "clock-in" && e.ts <= state.last!.ts).sort((a, b) => b.ts.localeCompare(a.ts))[0];
+    list.push({ employee, status: state.status, clockedInAt: (clockIn || state.last).ts, lastPunch: state.last });
+  }
+  return list.sort((a, b) => a.employee.lastName.localeCompare(b.employee.lastName) || a.employee.firstName.localeCompare(b.employee.firstName));
+}
+
+export function sinceLabel(iso: string, now = Date.now()) {
+  const mins = Math.max(0, Math.floor((now - Date.parse(iso)) / 60_000));
+  return mins < 60 ? `${mins}m` : `${Math.floor(mins / 60)}h ${mins % 60}m`;
+}
+
+/* --------------------------------- Output --------------------------------- */
+interface RosterLine {
+  name: string;
+  employeeId: string;
+  status: string;
+  clockedInAt: string;
+  accountedAt?: string;
+}
+
+function rosterLines(call: Pick<RollCall, "entries">, employees: Employee[]): RosterLine[] {
+  const byId = new Map(employees.map((e) => [e.id, e]));
+  return call.entries.map((x) => {
+    const e = byId.get(x.employeeId);
+    return {
+      name: e ? `${e.firstName} ${e.lastName}` : "Unknown",
+      employeeId: e?.employeeId || "",
+      status: ON_SITE_LABELS[x.status],
+      clockedInAt: x.clockedInAt,
+      accountedAt: x.accountedAt,
+    };
+  });
+}
+
+export function rollCallCSV(call: Pick<RollCall, "entries">, employees: Employee[]) {
+  const headers = ["Employee name", "Employee ID", "Status", "Clocked in", "Accounted for"];
+  return toCSV(
+    {
+      headers,
+      keys: headers,
+      types: ["text", "text", "text", "time", "time"],
+      rows: rosterLines(call, employees).map((l) => [l.name, l.employeeId, l.status, l.clockedInAt, l.accountedAt]),
+    },
+    "local"
+  );
+}
+
+const esc = (s: string) =>
+  s.replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[c] as string);
+
+/** Printable roll call sheet with a tick box per person. */
+export function printRollCall(call: Pick<RollCall, "siteId" | "entries">, employees: Employee[], title = "On-site roster") {
+  const w = window.open("", "_blank");
+  if (!w) throw new Error("Pop-up blocked. Allow pop-ups to print the roster.");
+  const time = (iso: string) => new Date(iso).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+  const rows = rosterLines(call, employees)
+    .map(
+      (l) =>
+        `<tr><td class="box">${l.accountedAt ? "✔" : ""}</td><td>${esc(l.name)}</td><td>${esc(l.employeeId)}</td>` +
+        `<td>${esc(l.status)}</td><td>${time(l.clockedInAt)}</td></tr>`
+    )
+    .join("");
+  w.document.write(`<!doctype html><title>${esc(title)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; padding: 12px; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border: 1px solid #000; padding: 6px; text-align: left; }
+  .box { width: 24px; text-align: center; }
+</style>
+<h1>${esc(title)} · ${esc(call.siteId)}</h1>
+<p>${call.entries.length} on site · printed ${esc(new Date().toLocaleString())}</p>
+<table><tr><th></th><th>Name</th><th>Employee ID</th><th>Status</th><th>Clocked in</th></tr>${rows}</table>
+<script>window.onload = () => window.print();</script>`);
+  w.document.close();
+}
@@ -0,0 +1,204 @@
+import { normalizeCard } from "./cardReader";
+import { toCSV } from "./exporter";
+import type { Employee, Keyring } from "./types";
+import { nowISO, uid } from "./util";
+import { encryptEmployee } from "./vault";
+
+/* ============================================================================
+   ROSTER IMPORT
+   - Parses an RFC 4180 CSV roster (quoted fields, "" escapes, CRLF/LF,
+     optional BOM; ; or tab delimiters are detected from the header line)
+   - Each roster column maps to at most one Employee field; headers are
+     matched to fields by common names and the manager can remap
+   - Rows are matched to existing employees by employeeId (case-insensitive)
+     within the importing org/site: a match is updated, anything else is
+     created. Imported employees are always active
+   - Rejected rows (missing fields, repeated IDs in the file, card numbers
+     held by someone else in the org, erased employees) are left out of the import and listed
+     in a downloadable report with the original columns plus the reason
+============================================================================ */
+
+export type RosterField = "employeeId" | "firstName" | "lastName" | "fullName" | "phone" | "address" | "badgeId";
+
+export const ROSTER_FIELDS: { field: RosterField; label: string; aliases: string[] }[] = [
+  { field: "employeeId", label: "Employee ID", aliases: ["employeeid", "empid", "id", "employeenumber", "empno", "file", "fileno"] },
+  { field: "firstName", label: "First name", aliases: ["firstname", "first", "givenname", "forename"] },
+  { field: "lastName", label: "Last name", aliases: ["lastname", "last", "surname", "familyname"] },
+  { field: "fullName", label: "Full name (split on last space)", aliases: ["name", "fullname", "employeename"] },
+  { field: "phone", label: "Phone", aliases: ["phone", "phonenumber", "mobile", "cell", "telephone"] },
+  { field: "address", label: "Address", aliases: ["address", "streetaddress", "homeaddress"] },
+  { field: "badgeId", label: "Card number", aliases: ["badgeid", "card", "cardnumber", "cardno", "rfid"] },
+];
+
+/** Roster column index for each mapped field. */
+export type RosterMapping = Partial<Record<RosterField, number>>;
+
+export interface Roster {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface PlannedRow {
+  line: number; // row number as a spreadsheet shows it (header is row 1)
+  action: "create" | "update" | "reject";
+  errors: string[];
+  values: Pick<Employee, "employeeId" | "firstName" | "lastName" | "phone" | "address" | "badgeId">;
+  existing?: Employee;
+}
+
+/* ---------------------------------- Parse --------------------------------- */
+function detectDelimiter(text: string) {
+  const first = text.slice(0, text.search(/\r?\n|$/));
+  const counts = [",", ";", "\t"].map((d) => [d, first.split(d).length] as const);
+  return counts.reduce((best, c) => (c[1] > best[1] ? c : best))[0];
+}
+
+export function parseCSV(text: string): string[][] {
+  const src = text.replace(/^\uFEFF/, "");
+  const delim = detectDelimiter(src);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch !== '"') cell += ch;
+      else if (src[i + 1] === '"') cell += src[++i];
+      else quoted = false;
+    } else if (ch === '"' && cell === "") quoted = true;
+    else if (ch === delim) {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i++;
+      rows.push([...row, cell]);
+      row = [];
+      cell = "";
+    } else cell += ch;
+  }
+  if (cell !== "" || row.length) rows.push([...row, cell]);
+  return rows.filter((r) => r.some((c) => c.trim() !== ""));
+}
+
+export function readRoster(text: string): Roster {
+  const [headers = [], ...rows] = parseCSV(text);
+  if (!headers.length) throw new Error("The file is empty.");
+  return { headers: headers.map((h) => h.trim()), rows };
+}
+
+const headerKey = (h: string) => h.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+export function guessMapping(headers: string[]): RosterMapping {
+  const mapping: RosterMapping = {};
+  const keys = headers.map(headerKey);
+  for (const { field, aliases } of ROSTER_FIELDS) {
+    const i = keys.findIndex((k, idx) => aliases.includes(k) && !Object.values(mapping).includes(idx));
+    if (i >= 0) mapping[field] = i;
+  }
+  // a full-name column only helps when first/last aren't both present
+  if (mapping.firstName !== undefined && mapping.lastName !== undefined) delete mapping.fullName;
+  return mapping;
+}
+
+/* ---------------------------------- Plan ---------------------------------- */
+function splitName(full: string) {
+  const parts = full.trim().split(/\s+/);
+  return parts.length < 2 ? { first: parts[0] || "", last: "" } : { first: parts.slice(0, -1).join(" "), last: parts[parts.length - 1] };
+}
+
+function rowValues(row: string[], m: RosterMapping): PlannedRow["values"] {
+  const get = (f: RosterField) => (m[f] === undefined ? "" : (row[m[f]!] ?? "").trim());
+  const named = splitName(get("fullName"));
+  const card = get("badgeId");
+  return {
+    employeeId: get("employeeId"),
+    firstName: get("firstName") || named.first,
+    lastName: get("lastName") || named.last,
+    phone: get("phone") || undefined,
+    address: get("address") || undefined,
+    badgeId: card ? normalizeCard(card).card : undefined,
+  };
+}
+
+export function planImport(
+  roster: Roster,
+  mapping: RosterMapping,
+  employees: Employee[],
+  scope: { orgId: string; siteId: string }
+): PlannedRow[] {
+  const idKey = (id: string) => id.trim().toLowerCase();
+  const atSite = new Map(
+    employees.filter((e) => e.orgId === scope.orgId && e.siteId === scope.siteId).map((e) => [idKey(e.employeeId), e])
+  );
+  const firstLine = new Map<string, number>();
+  const cardLine = new Map<string, number>();
+
+  return roster.rows.map((row, i) => {
+    const line = i + 2;
+    const values = rowValues(row, mapping);
+    const existing = atSite.get(idKey(values.employeeId));
+    const errors: string[] = [];
+
+    if (!values.employeeId) errors.push("Missing employee ID");
+    if (existing?.erasedAt) errors.push("Employee was erased for privacy");
+    if (!values.firstName) errors.push("Missing first name");
+    if (!values.lastName) errors.push("Missing last name");
+    if (values.employeeId) {
+      const seen = firstLine.get(idKey(values.employeeId));
+      if (seen) errors.push(`Employee ID repeats row ${seen}`);
+      else firstLine.set(idKey(values.employeeId), line);
+    }
+    if (values.badgeId) {
+      const holder = employees.find((e) => e.orgId === scope.orgId && e.badgeId === values.badgeId && e.id !== existing?.id);
+      const seen = cardLine.get(values.badgeId);
+      if (holder) errors.push(`Card ${values.badgeId} belongs to ${holder.firstName} ${holder.lastName} (${holder.employeeId})`);
+      else if (seen) errors.push(`Card ${values.badgeId} repeats row ${seen}`);
+      else cardLine.set(values.badgeId, line);
+    }
+    const action = errors.length ? "reject" : existing ? "update" : "create";
+    return { line, action, errors, values, existing };
+  });
+}
+
+/* ---------------------------------- Apply --------------------------------- */
+/**
+ * Employees after the import, with new and updated records encrypted. Empty
+ * optional cells keep the existing value rather than clearing it.
+ */
+export async function applyImport(
+  employees: Employee[],
+  plan: PlannedRow[],
+  scope: { orgId: string; siteId: string },
+  keyring: Keyring | undefined
+): Promise<Employee[]> {
+  const updates = new Map<string, Employee>();
+  const created: Employee[] = [];
+  for (const p of plan) {
+    if (p.action === "reject") continue;
+    const v = p.values;
+    const defined = Object.fromEntries(Object.entries(v).filter(([, x]) => x !== undefined));
+    if (p.existing) {
+      updates.set(p.existing.id, await encryptEmployee(keyring, { ...p.existing, ...defined, status: "active" }));
+    } else {
+      const e: Employee = { id: uid(), ...scope, ...v, status: "active", createdAt: nowISO() };
+      created.push(await encryptEmployee(keyring, e));
+    }
+  }
+  return [...employees.map((e) => updates.get(e.id) || e), ...created];
+}
+
+/** CSV of the rejected rows: row number, reasons, then the row as it was in the file. */
+export function rejectReport(roster: Roster, plan: PlannedRow[]) {
+  const rejected = plan.filter((p) => p.action === "reject");
+  const headers = ["Row", "Errors", ...roster.headers];
+  return toCSV(
+    {
+      headers,
+      keys: headers,
+      types: headers.map((_, i) => (i === 0 ? "number" : "text")),
+      rows: rejected.map((p) => [p.line, p.errors.join("; "), ...roster.rows[p.line - 2]]),
+    },
+    "local"
+  );
+}
@@ -0,0 +1,184 @@
+import type { DeviceSettings, EventRecord, ScheduleRule, ScheduleTag } from "./types";
+
+/* ============================================================================
+   WORK SCHEDULES
+   - A ScheduleRule is one planned shift for one employee: either a single
+     date or a weekly pattern (weekdays, optionally bounded by dates).
+     Times are local "HH:mm"; an end at or before the start runs past
+     midnight into the next day
+   - Clock-ins and clock-outs are tagged against the nearest scheduled
+     shift when they are recorded:
+       late  = more than the late grace after the scheduled time
+       early = more than the early grace before the scheduled time
+     (so a clock-out after the early grace is on time, a clock-out past the
+     late grace means the employee stayed late)
+   - A punch that doesn't fall near any scheduled shift is "unscheduled":
+     clock-ins count from MATCH_WINDOW_HOURS before a shift to its end,
+     clock-outs from its start to MATCH_WINDOW_HOURS after its end
+   - The daily view is worked out from live punches, so manager corrections
+     are reflected there even though stored tags are not re-computed (the
+     tag is part of the punch's chain hash, chain.ts)
+============================================================================ */
+
+export const DEFAULT_LATE_GRACE_MINUTES = 5;
+export const DEFAULT_EARLY_GRACE_MINUTES = 5;
+const MATCH_WINDOW_HOURS = 3;
+
+export const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export const SCHEDULE_TAG_LABELS: Record<ScheduleTag, string> = {
+  "on-time": "On time",
+  late: "Late",
+  early: "Early",
+  unscheduled: "Unscheduled",
+};
+
+export interface Grace {
+  lateMinutes: number;
+  earlyMinutes: number;
+}
+
+export const graceOf = (d: DeviceSettings): Grace => ({
+  lateMinutes: d.lateGraceMinutes ?? DEFAULT_LATE_GRACE_MINUTES,
+  earlyMinutes: d.earlyGraceMinutes ?? DEFAULT_EARLY_GRACE_MINUTES,
+});
+
+/** One concrete shift produced by a rule on a given day. */
+export interface Occurrence {
+  rule: ScheduleRule;
+  start: number;
+  end: number;
+}
+
+export const validTime = (t: string) => /^([01]\d|2[0-3]):[0-5]\d$/.test(t);
+
+const pad = (n: number) => String(n).padStart(2, "0");
+export const dayKey = (d: Date) => `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+const MINUTE = 60_000;
+
+function at(day: Date, hhmm: string) {
+  const [h, m] = hhmm.split(":").map(Number);
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate(), h, m).getTime();
+}
+
+function appliesOn(rule: ScheduleRule, day: Date) {
+  const key = dayKey(day);
+  if (rule.date) return rule.date === key;
+  if (!rule.weekdays?.includes(day.getDay())) return false;
+  return (!rule.validFrom || key >= rule.validFrom) && (!rule.validUntil || key <= rule.validUntil);
+}
+
+/** Shifts starting on the local calendar day of `day`. */
+export function occurrencesOn(rules: ScheduleRule[], day: Date): Occurrence[] {
+  return rules
+    .filter((r) => appliesOn(r, day))
+    .map((rule) => {
+      const start = at(day, rule.start);
+      let end = at(day, rule.end);
+      if (end <= start) end = at(new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1), rule.end);
+      return { rule, start, end };
+    })
+    .sort((a, b) => a.start - b.start);
+}
+
+/** Occurrences for one employee on the day of `t` and the days either side (overnight shifts). */
+function occurrencesAround(rules: ScheduleRule[], employeeId: string, t: number) {
+  const own = rules.filter((r) => r.employeeId === employeeId);
+  const d = new Date(t);
+  return [-1, 0, 1].flatMap((off) => occurrencesOn(own, new Date(d.getFullYear(), d.getMonth(), d.getDate() + off)));
+}
+
+function nearest(list: Occurrence[], t: number, key: "start" | "end") {
+  return list.reduce<Occurrence | undefined>(
+    (best, o) => (!best || Math.abs(o[key] - t) < Math.abs(best[key] - t) ? o : best),
+    undefined
+  );
+}
+
+function compare(t: number, planned: number, grace: Grace): ScheduleTag {
+  if (t > planned + grace.lateMinutes * MINUTE) return "late";
+  if (t < planned - grace.earlyMinutes * MINUTE) return "early";
+  return "on-time";
+}
+
+/** Tag for a clock-in/clock-out against the employee's schedule; undefined for break and meal punches. */
+export function schedulePunch(
+  rules: ScheduleRule[],
+  ev: Pick<EventRecord, "employeeId" | "type" | "ts">,
+  grace: Grace
+): ScheduleTag | undefined {
+  if (ev.type !== "clock-in" && ev.type !== "clock-out") return undefined;
+  const t = Date.parse(ev.ts);
+  const window = MATCH_WINDOW_HOURS * 60 * MINUTE;
+  const all = occurrencesAround(rules, ev.employeeId, t);
+  if (ev.type === "clock-in") {
+    const o = nearest(all.filter((x) => t >= x.start - window && t <= x.end), t, "start");
+    return o ? compare(t, o.start, grace) : "unscheduled";
+  }
+  const o = nearest(all.filter((x) => t >= x.start && t <= x.end + window), t, "end");
+  return o ? compare(t, o.end, grace) : "unscheduled";
+}
+
+/* ------------------------------- Daily view ------------------------------- */
+export type AttendanceStatus = "on-time" | "late" | "no-show" | "upcoming";
+
+export interface AttendanceRow {
+  occurrence: Occurrence;
+  status: AttendanceStatus;
+  clockIn?: EventRecord;
+  clockOut?: EventRecord;
+  lateMinutes: number;
+  leftEarlyMinutes: number;
+}
+
+/**
+ * Scheduled shifts starting on `day`, each matched to the employee's first
+ * clock-in within the shift's window and their first clock-out after it.
+ * `events` should be live (non-voided) punches.
+ */
+export function dailyAttendance(
+  rules: ScheduleRule[],
+  events: EventRecord[],
+  day: Date,
+  grace: Grace,
+  now = Date.now()
+): AttendanceRow[] {
+  const window = MATCH_WINDOW_HOURS * 60 * MINUTE;
+  const sorted = [...events].sort((a, b) => a.ts.localeCompare(b.ts));
+  return occurrencesOn(rules, day).map((occurrence) => {
+    const { rule, start, end } = occurrence;
+    const own = sorted.filter((e) => e.employeeId === rule.employeeId);
+    const clockIn = own.find((e) => {
+      const t = Date.parse(e.ts);
+      return e.type === "clock-in" && t >= start - window && t <= end;
+    });
+    const clockOut =
+      clockIn &&
+      own.find((e) => {
+        const t = Date.parse(e.ts);
+        return e.type === "clock-out" && t > Date.parse(clockIn.ts) && t <= end + window;
+      });
+    const lateMinutes = clockIn ? Math.max(0, Math.round((Date.parse(clockIn.ts) - start) / MINUTE)) : 0;
+    const leftEarlyMinutes = clockOut ? Math.max(0, Math.round((end - Date.parse(clockOut.ts)) / MINUTE)) : 0;
+    let status: AttendanceStatus;
+    if (clockIn) status = lateMinutes > grace.lateMinutes ? "late" : "on-time";
+    else status = now > start + grace.lateMinutes * MINUTE ? "no-show" : "upcoming";
+    return {
+      occurrence,
+      status,
+      clockIn,
+      clockOut,
+      lateMinutes,
+      leftEarlyMinutes: leftEarlyMinutes > grace.earlyMinutes ? leftEarlyMinutes : 0,
+    };
+  });
+}
+
+export function describeRule(r: ScheduleRule) {
+  const when = r.date
+    ? r.date
+    : `${(r.weekdays || []).map((d) => WEEKDAY_LABELS[d]).join(", ")}${r.validFrom ? ` from ${r.validFrom}` : ""}${
+        r.validUntil ? ` until ${r.validUntil}` : ""
+      }`;
+  return `${when} · ${r.start}–${r.end}`;
+}
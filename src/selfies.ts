@@ -0,0 +1,136 @@
+import { useEffect, useState } from "react";
+import type { DB, Keyring, SelfieRef } from "./types";
+import { encryptField, isEncrypted } from "./vault";
+import { fromB64url, toB64url } from "./util";
+
+/* ============================================================================
+   PUNCH SELFIE STORAGE
+   - The full selfie is kept as a binary Blob in its own store (db.ts),
+     keyed by event id, and only read when someone opens it. The event
+     carries a SelfieRef: a THUMB_SIZE px thumbnail made at capture for
+     list views, the stored size and whether the stored image is encrypted
+   - Stored form: a plain selfie is the JPEG bytes; a vault-encrypted one
+     ("enc1.<keyId>.<epk>.<iv>.<ct>", vault.ts) is packed as
+     [len keyId][len epk][len iv][ct] so nothing is base64 on disk. Both
+     unpack to the same strings the rest of the app (and sync) uses
+   - Storage usage comes from navigator.storage.estimate(); the settings
+     panel warns from QUOTA_WARN_RATIO of the quota up
+============================================================================ */
+
+export const THUMB_SIZE = 96;
+export const QUOTA_WARN_RATIO = 0.8;
+const ENC_TYPE = "application/x-enc1";
+
+/* ---------------------------------- Codec --------------------------------- */
+function dataUrlBytes(dataUrl: string) {
+  const [head, body = ""] = dataUrl.split(",");
+  const bin = atob(body);
+  return { type: /^data:([^;,]+)/.exec(head)?.[1] || "image/jpeg", bytes: Uint8Array.from(bin, (c) => c.charCodeAt(0)) };
+}
+
+/** Blob to store for a selfie data URL or vault-encrypted selfie. */
+export function selfieToBlob(value: string): Blob {
+  if (!isEncrypted(value)) {
+    const { type, bytes } = dataUrlBytes(value);
+    return new Blob([bytes], { type });
+  }
+  const [, keyId, epk, iv, ct] = value.split(".");
+  const parts = [new TextEncoder().encode(keyId), fromB64url(epk), fromB64url(iv)];
+  const header = parts.flatMap((p) => [Uint8Array.of(p.length), p]);
+  return new Blob([...header, fromB64url(ct)], { type: ENC_TYPE });
+}
+
+/** The data URL or encrypted string a stored selfie Blob came from. */
+export async function blobToSelfie(blob: Blob): Promise<string> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  if (blob.type !== ENC_TYPE) {
+    let bin = "";
+    for (let i = 0; i < bytes.length; i += 0x8000) bin += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    return `data:${blob.type || "image/jpeg"};base64,${btoa(bin)}`;
+  }
+  const parts: Uint8Array[] = [];
+  let at = 0;
+  for (let i = 0; i < 3; i++) {
+    parts.push(bytes.subarray(at + 1, at + 1 + bytes[at]));
+    at += 1 + bytes[at];
+  }
+  const [keyId, epk, iv] = parts;
+  return ["enc1", new TextDecoder().decode(keyId), toB64url(epk), toB64url(iv), toB64url(bytes.subarray(at))].join(".");
+}
+
+/* --------------------------------- Capture -------------------------------- */
+export async function makeThumbnail(dataUrl: string, size = THUMB_SIZE): Promise<string> {
+  const img = await createImageBitmap(selfieToBlob(dataUrl));
+  try {
+    const canvas = document.createElement("canvas");
+    canvas.width = size;
+    canvas.height = size;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Canvas is not available");
+    const side = Math.min(img.width, img.height);
+    ctx.drawImage(img, (img.width - side) / 2, (img.height - side) / 2, side, side, 0, 0, size, size);
+    return canvas.toDataURL("image/jpeg", 0.7);
+  } finally {
+    img.close();
+  }
+}
+
+/**
+ * Value to store for a new punch selfie (encrypted once the keyring exists)
+ * and the reference for its event. The thumbnail is left for encryptEvent.
+ */
+export async function prepareSelfie(keyring: Keyring | undefined, dataUrl: string) {
+  const thumb = await makeThumbnail(dataUrl).catch(() => undefined);
+  const value = keyring ? await encryptField(keyring, dataUrl) : dataUrl;
+  const ref: SelfieRef = { thumb, size: selfieToBlob(value).size, encrypted: !!keyring };
+  return { value, ref };
+}
+
+/* --------------------------------- Storage -------------------------------- */
+export interface StorageUsage {
+  usage?: number; // bytes, whole origin
+  quota?: number;
+  persisted?: boolean;
+  selfies: number;
+  selfieBytes: number;
+}
+
+export function selfieTotals(db: DB) {
+  const stored = db.events.filter((e) => e.selfie);
+  return { selfies: stored.length, selfieBytes: stored.reduce((n, e) => n + e.selfie!.size, 0) };
+}
+
+export const nearQuota = (u: StorageUsage) => !!u.quota && (u.usage || 0) >= u.quota * QUOTA_WARN_RATIO;
+
+export function formatBytes(n: number) {
+  if (n < 1024) return `${n} B`;
+  const units = ["KB", "MB", "GB", "TB"];
+  let v = n / 1024;
+  let i = 0;
+  while (v >= 1024 && i < units.length - 1) {
+    v /= 1024;
+    i++;
+  }
+  return `${v < 10 ? v.toFixed(1) : Math.round(v)} ${units[i]}`;
+}
+
+/** Browser storage estimate, refreshed whenever the store changes; undefined fields where the API is missing. */
+export function useStorageUsage(db: DB): StorageUsage {
+  const totals = selfieTotals(db);
+  const [estimate, setEstimate] = useState<Pick<StorageUsage, "usage" | "quota" | "persisted">>({});
+
+  useEffect(() => {
+    let cancelled = false;
+    const storage = navigator.storage;
+    if (!storage?.estimate) return;
+    Promise.all([storage.estimate(), storage.persisted?.() ?? Promise.resolve(undefined)]).then(
+      ([{ usage, quota }, persisted]) => !cancelled && setEstimate({ usage, quota, persisted }),
+      () => undefined
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [db]);
+
+  return { ...estimate, ...totals };
+}
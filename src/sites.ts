@@ -0,0 +1,103 @@
+import { liveEvents } from "./corrections";
+import { onSiteNow } from "./rollcall";
+import type { DB, Site } from "./types";
+import { uid } from "./util";
+
+/* ============================================================================
+   SITE REGISTRY
+   - Sites are registered per org with a display name, IANA time zone and
+     address; siteId is the same code enrollment tokens carry
+   - siteOptions() is what every manager-side site picker offers: the
+     registry, plus any site still referenced by employees or punches (so
+     older data stays reachable before it is registered)
+   - ALL_SITES selects the whole org; siteRollup() summarizes each site
+     for regional managers
+============================================================================ */
+
+export const ALL_SITES = "*";
+
+export interface SiteOption {
+  id: string;
+  name: string;
+  timeZone?: string;
+  registered: boolean;
+}
+
+export const validSiteId = (id: string) => /^[A-Za-z0-9._-]{1,40}$/.test(id);
+
+export const inSite = (siteId: string, filter: string) => filter === ALL_SITES || siteId === filter;
+
+export function siteOptions(db: DB): SiteOption[] {
+  const orgId = db.device.orgId;
+  const options = new Map<string, SiteOption>();
+  for (const s of db.sites.filter((x) => x.orgId === orgId)) {
+    options.set(s.siteId, { id: s.siteId, name: s.name, timeZone: s.timeZone, registered: true });
+  }
+  const seen = [db.device.siteId, ...db.employees.filter((e) => e.orgId === orgId).map((e) => e.siteId)];
+  seen.push(...db.events.filter((e) => e.orgId === orgId).map((e) => e.siteId));
+  for (const id of seen) if (id && !options.has(id)) options.set(id, { id, name: id, registered: false });
+  return [...options.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function siteLabel(db: DB, id: string) {
+  if (id === ALL_SITES) return "All sites";
+  const s = db.sites.find((x) => x.orgId === db.device.orgId && x.siteId === id);
+  return s && s.name !== id ? `${s.name} (${id})` : id;
+}
+
+/** IANA zones the browser knows, for the registry form; empty on older engines. */
+export function timeZones(): string[] {
+  const intl = Intl as unknown as { supportedValuesOf?: (k: string) => string[] };
+  return intl.supportedValuesOf?.("timeZone") || [];
+}
+
+export function validTimeZone(tz: string) {
+  try {
+    new Intl.DateTimeFormat(undefined, { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Date and time as shown on the site's own clock (device time when the site has no zone). */
+export const formatInSite = (iso: string, timeZone?: string) =>
+  new Date(iso).toLocaleString(undefined, timeZone ? { timeZone, timeZoneName: "short" } : undefined);
+
+/** Registry entry for a site the device was just enrolled into, unless it is registered already. */
+export function ensureSite(sites: Site[], orgId: string, siteId: string, createdAt: string): Site[] {
+  if (sites.some((s) => s.orgId === orgId && s.siteId === siteId)) return sites;
+  return [...sites, { id: uid(), orgId, siteId, name: siteId, createdAt }];
+}
+
+/* --------------------------------- Roll-up -------------------------------- */
+export interface SiteSummary {
+  site: SiteOption;
+  activeEmployees: number;
+  pending: number;
+  onSite: number;
+  punchesToday: number;
+  openExceptions: number;
+  lastPunch?: string;
+}
+
+export function siteRollup(db: DB, now = Date.now()): SiteSummary[] {
+  const orgId = db.device.orgId;
+  const employees = db.employees.filter((e) => e.orgId === orgId);
+  const events = liveEvents(db.events.filter((e) => e.orgId === orgId));
+  const d = new Date(now);
+  const today = new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime();
+  return siteOptions(db).map((site) => {
+    const emps = employees.filter((e) => e.siteId === site.id);
+    const evs = events.filter((e) => e.siteId === site.id);
+    return {
+      site,
+      activeEmployees: emps.filter((e) => e.status === "active").length,
+      pending: emps.filter((e) => e.status === "pending").length,
+      onSite: onSiteNow(emps, evs, site.id, now).length,
+      punchesToday: evs.filter((e) => Date.parse(e.ts) >= today).length,
+      openExceptions: evs.filter((e) => e.exception && !e.exception.reviewedAt).length,
+      lastPunch: evs.reduce<string | undefined>((m, e) => (!m || e.ts > m ? e.ts : m), undefined),
+    };
+  });
+}
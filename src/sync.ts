@@ -0,0 +1,152 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { loadEventSelfie } from "./db";
+import type { DB, EventRecord, SaveDB } from "./types";
+import { nowISO } from "./util";
+
+/* ============================================================================
+   OUTBOUND SYNC
+   - Pushes unsynced events one at a time, oldest offlineSeq first
+   - Event id is sent as the Idempotency-Key, so replays after a lost
+     response are safe; the server must echo the id back to acknowledge.
+     Manager-amended events carry a revision suffix (<id>.r<n>) so the
+     corrected version is not discarded as a duplicate.
+   - The full selfie is read from its store and sent as selfieDataUrl
+     (still vault-encrypted); the thumbnail stays on the device
+   - Events are only marked synced on acknowledgement
+   - Failures back off exponentially (with jitter) until the next success,
+     a manual "Sync now", or the browser coming back online
+============================================================================ */
+
+const BASE_DELAY_MS = 2_000;
+const MAX_DELAY_MS = 5 * 60_000;
+const REQUEST_TIMEOUT_MS = 15_000;
+
+export interface SyncState {
+  status: "idle" | "syncing" | "offline" | "error" | "disabled";
+  lastSyncAt?: string;
+  lastError?: string;
+  retryAt?: string;
+}
+
+export function backoffDelay(attempt: number) {
+  const ceiling = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+  return ceiling / 2 + (Math.random() * ceiling) / 2;
+}
+
+/** Unsynced events in the order the server must receive them. */
+export function pendingEvents(db: DB) {
+  return db.events.filter((e) => !e.synced).sort((a, b) => a.offlineSeq - b.offlineSeq);
+}
+
+async function toPayload(e: EventRecord) {
+  const { synced: _synced, selfie, ...rest } = e;
+  return { ...rest, selfieDataUrl: selfie ? await loadEventSelfie(e.id) : undefined };
+}
+
+export const idempotencyKey = (e: EventRecord) => (e.amendments?.length ? `${e.id}.r${e.amendments.length}` : e.id);
+
+export async function pushEvent(endpoint: string, e: EventRecord) {
+  const res = await fetch(endpoint, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "Idempotency-Key": idempotencyKey(e) },
+    body: JSON.stringify(await toPayload(e)),
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+  if (!res.ok) throw new Error(`Server responded ${res.status}`);
+  const ack = await res.json().catch(() => null);
+  if (ack?.id !== e.id) throw new Error("Server did not acknowledge event");
+}
+
+/* --------------------------------- Hook ----------------------------------- */
+export function useSyncEngine(db: DB | null, save: SaveDB) {
+  const [state, setState] = useState<SyncState>({ status: "idle" });
+  const [netOnline, setNetOnline] = useState(navigator.onLine);
+  const dbRef = useRef(db);
+  const saveRef = useRef(save);
+  const running = useRef(false);
+  const attempt = useRef(0);
+  const retryTimer = useRef<number | null>(null);
+  dbRef.current = db;
+  saveRef.current = save;
+
+  const clearRetry = () => {
+    if (retryTimer.current) clearTimeout(retryTimer.current);
+    retryTimer.current = null;
+  };
+
+  const markSynced = (pushed: EventRecord) => {
+    const key = idempotencyKey(pushed);
+    // an amendment made while the request was in flight must still go out
+    const acked = (e: EventRecord) => e.id === pushed.id && idempotencyKey(e) === key;
+    saveRef.current((cur) => {
+      const next = { ...cur, events: cur.events.map((e) => (acked(e) ? { ...e, synced: true } : e)) };
+      dbRef.current = next; // the loop reads the next event before React re-renders
+      return next;
+    });
+  };
+
+  const run = useCallback(async () => {
+    const cur = dbRef.current;
+    if (!cur || running.current) return;
+    const endpoint = cur.device.syncEndpoint?.trim();
+    if (!endpoint) return setState((s) => ({ ...s, status: "disabled" }));
+    if (!navigator.onLine || !cur.device.online) return setState((s) => ({ ...s, status: "offline" }));
+
+    running.current = true;
+    clearRetry();
+    setState((s) => ({ ...s, status: "syncing" }));
+    try {
+      for (let ev = pendingEvents(cur)[0]; ev; ev = pendingEvents(dbRef.current as DB)[0]) {
+        await pushEvent(endpoint, ev);
+        markSynced(ev);
+      }
+      attempt.current = 0;
+      setState({ status: "idle", lastSyncAt: nowISO() });
+    } catch (e: any) {
+      const delay = backoffDelay(attempt.current++);
+      retryTimer.current = window.setTimeout(() => {
+        retryTimer.current = null;
+        run();
+      }, delay);
+      setState((s) => ({
+        ...s,
+        status: "error",
+        lastError: e?.message || "Sync failed",
+        retryAt: new Date(Date.now() + delay).toISOString(),
+      }));
+    } finally {
+      running.current = false;
+    }
+  }, []);
+
+  const syncNow = useCallback(() => {
+    attempt.current = 0;
+    clearRetry();
+    run();
+  }, [run]);
+
+  useEffect(() => {
+    const up = () => {
+      setNetOnline(true);
+      syncNow();
+    };
+    const down = () => setNetOnline(false);
+    window.addEventListener("online", up);
+    window.addEventListener("offline", down);
+    return () => {
+      window.removeEventListener("online", up);
+      window.removeEventListener("offline", down);
+      clearRetry();
+    };
+  }, [syncNow]);
+
+  // new punches or config changes kick the engine, unless a backoff is pending
+  const pending = db ? pendingEvents(db).length : 0;
+  useEffect(() => {
+    if (pending > 0 && !retryTimer.current) run();
+  }, [pending, db?.device.online, db?.device.syncEndpoint, run]);
+
+  return { ...state, netOnline, pending, syncNow };
+}
+
+export type SyncInfo = ReturnType<typeof useSyncEngine>;
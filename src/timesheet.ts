@@ -0,0 +1,258 @@
+import type { Employee, EventRecord } from "./types";
+
+/* ============================================================================
+   TIMESHEETS
+   - Pairs each employee's clock-in with the following clock-out
+   - Break/meal punches inside a shift become break periods; meal breaks
+     are unpaid and subtracted from worked time, rest breaks are paid
+   - Shifts crossing midnight are split across local calendar days
+   - Punches that cannot be paired are reported as orphans
+   - Weeks start on Monday (local time)
+============================================================================ */
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+/** A clock-in with no clock-out within this window is treated as forgotten. */
+export const MAX_SHIFT_HOURS = 16;
+export const DEFAULT_MEAL_REQUIRED_AFTER_HOURS = 6;
+
+export interface BreakPeriod {
+  kind: "break" | "meal";
+  start: number; // epoch ms
+  end: number; // epoch ms
+}
+
+const UNPAID_BREAKS: BreakPeriod["kind"][] = ["meal"];
+
+export interface Shift {
+  employeeId: string; // internal id
+  clockIn: EventRecord;
+  clockOut?: EventRecord; // undefined while the shift is still open
+  start: number; // epoch ms
+  end: number; // epoch ms (now, for open shifts)
+  breaks: BreakPeriod[];
+}
+
+export interface OrphanPunch {
+  event: EventRecord;
+  reason: "missing-clock-out" | "missing-clock-in" | "missing-break-end" | "missing-break-start" | "outside-shift";
+}
+
+export const ORPHAN_LABELS: Record<OrphanPunch["reason"], string> = {
+  "missing-clock-out": "No clock-out after",
+  "missing-clock-in": "No clock-in before",
+  "missing-break-end": "Break not ended after",
+  "missing-break-start": "Break end without start at",
+  "outside-shift": "Break punch outside a shift at",
+};
+
+export interface WeekRow {
+  employee?: Employee;
+  employeeId: string;
+  daily: number[]; // hours Mon..Sun
+  total: number;
+  shifts: Shift[];
+  orphans: OrphanPunch[];
+  missedMeals: Shift[]; // shifts over the meal threshold with no meal break
+  open: boolean;
+}
+
+export function startOfWeek(d: Date) {
+  const x = new Date(d.getFullYear(), d.getMonth(), d.getDate());
+  x.setDate(x.getDate() - ((x.getDay() + 6) % 7));
+  return x;
+}
+
+export function addDays(d: Date, n: number) {
+  const x = new Date(d);
+  x.setDate(x.getDate() + n);
+  return x;
+}
+
+const breakKind = (e: EventRecord): BreakPeriod["kind"] => (e.type.startsWith("meal") ? "meal" : "break");
+
+/** Pair punches into shifts for every employee present in `events`. */
+export function buildShifts(events: EventRecord[], now = Date.now()) {
+  const shifts: Shift[] = [];
+  const orphans: OrphanPunch[] = [];
+  const byEmp = new Map<string, EventRecord[]>();
+  for (const e of events) byEmp.set(e.employeeId, [...(byEmp.get(e.employeeId) || []), e]);
+
+  for (const [employeeId, list] of byEmp) {
+    const sorted = [...list].sort((a, b) => a.ts.localeCompare(b.ts));
+    let open: { clockIn: EventRecord; breaks: BreakPeriod[]; onBreak?: EventRecord } | null = null;
+
+    // closes a break left running when the shift moves on without its end punch
+    const dropOpenBreak = (at: number) => {
+      if (!open?.onBreak) return;
+      orphans.push({ event: open.onBreak, reason: "missing-break-end" });
+      open.breaks.push({ kind: breakKind(open.onBreak), start: Date.parse(open.onBreak.ts), end: at });
+      open.onBreak = undefined;
+    };
+
+    for (const e of sorted) {
+      const t = Date.parse(e.ts);
+      switch (e.type) {
+        case "clock-in":
+          if (open) orphans.push({ event: open.clockIn, reason: "missing-clock-out" });
+          open = { clockIn: e, breaks: [] };
+          break;
+        case "clock-out": {
+          if (!open) {
+            orphans.push({ event: e, reason: "missing-clock-in" });
+            break;
+          }
+          const start = Date.parse(open.clockIn.ts);
+          if (t - start > MAX_SHIFT_HOURS * HOUR) {
+            orphans.push({ event: open.clockIn, reason: "missing-clock-out" }, { event: e, reason: "missing-clock-in" });
+          } else {
+            dropOpenBreak(t);
+            shifts.push({ employeeId, clockIn: open.clockIn, clockOut: e, start, end: t, breaks: open.breaks });
+          }
+          open = null;
+          break;
+        }
+        case "break-start":
+        case "meal-start":
+          if (!open) {
+            orphans.push({ event: e, reason: "outside-shift" });
+            break;
+          }
+          dropOpenBreak(t);
+          open.onBreak = e;
+          break;
+        case "break-end":
+        case "meal-end":
+          if (!open) orphans.push({ event: e, reason: "outside-shift" });
+          else if (!open.onBreak || breakKind(open.onBreak) !== breakKind(e)) {
+            orphans.push({ event: e, reason: "missing-break-start" });
+          } else {
+            open.breaks.push({ kind: breakKind(e), start: Date.parse(open.onBreak.ts), end: t });
+            open.onBreak = undefined;
+          }
+          break;
+      }
+    }
+    if (open) {
+      const start = Date.parse(open.clockIn.ts);
+      if (now - start > MAX_SHIFT_HOURS * HOUR) orphans.push({ event: open.clockIn, reason: "missing-clock-out" });
+      else {
+        const breaks = open.onBreak
+          ? [...open.breaks, { kind: breakKind(open.onBreak), start: Date.parse(open.onBreak.ts), end: now }]
+          : open.breaks;
+        shifts.push({ employeeId, clockIn: open.clockIn, start, end: now, breaks });
+      }
+    }
+  }
+  return { shifts, orphans };
+}
+
+/** Paid intervals of a shift: [start, end) minus unpaid breaks. */
+export function workedIntervals(s: Shift): Array<[number, number]> {
+  const unpaid = s.breaks.filter((b) => UNPAID_BREAKS.includes(b.kind)).sort((a, b) => a.start - b.start);
+  const out: Array<[number, number]> = [];
+  let cur = s.start;
+  for (const b of unpaid) {
+    const bs = Math.max(b.start, cur);
+    const be = Math.min(b.end, s.end);
+    if (be <= bs) continue;
+    out.push([cur, bs]);
+    cur = be;
+  }
+  if (cur < s.end) out.push([cur, s.end]);
+  return out.filter(([a, b]) => b > a);
+}
+
+export function workedHours(s: Shift) {
+  return workedIntervals(s).reduce((sum, [a, b]) => sum + (b - a) / HOUR, 0);
+}
+
+/** True when the shift ran past `afterHours` without any meal break. */
+export function missedMeal(s: Shift, afterHours = DEFAULT_MEAL_REQUIRED_AFTER_HOURS) {
+  return (s.end - s.start) / HOUR > afterHours && !s.breaks.some((b) => b.kind === "meal");
+}
+
+/** Split [start, end) at local midnights and return hours per day key (YYYY-MM-DD). */
+export function hoursByDay(start: number, end: number) {
+  const out = new Map<string, number>();
+  let cur = start;
+  while (cur < end) {
+    const d = new Date(cur);
+    const nextMidnight = new Date(d.getFullYear(), d.getMonth(), d.getDate() + 1).getTime();
+    const segEnd = Math.min(end, nextMidnight);
+    const key = dayKey(d);
+    out.set(key, (out.get(key) || 0) + (segEnd - cur) / HOUR);
+    cur = segEnd;
+  }
+  return out;
+}
+
+export function dayKey(d: Date) {
+  const p = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${p(d.getMonth() + 1)}-${p(d.getDate())}`;
+}
+
+/** Per-employee daily and weekly totals for the week beginning `weekStart`. */
+export function weekSummary(
+  events: EventRecord[],
+  employees: Employee[],
+  weekStart: Date,
+  { mealRequiredAfterHours = DEFAULT_MEAL_REQUIRED_AFTER_HOURS, now = Date.now() } = {}
+) {
+  const days = Array.from({ length: 7 }, (_, i) => dayKey(addDays(weekStart, i)));
+  const from = weekStart.getTime();
+  const to = addDays(weekStart, 7).getTime();
+  // include a margin so shifts that began the night before the week are paired
+  const windowed = events.filter((e) => {
+    const t = Date.parse(e.ts);
+    return t >= from - DAY && t < to + DAY;
+  });
+  const { shifts, orphans } = buildShifts(windowed, now);
+
+  const rows = new Map<string, WeekRow>();
+  const row = (employeeId: string) => {
+    let r = rows.get(employeeId);
+    if (!r) {
+      const employee = employees.find((x) => x.id === employeeId);
+      r = {
+        employee,
+        employeeId,
+        daily: days.map(() => 0),
+        total: 0,
+        shifts: [],
+        orphans: [],
+        missedMeals: [],
+        open: false,
+      };
+      rows.set(employeeId, r);
+    }
+    return r;
+  };
+
+  for (const s of shifts) {
+    if (s.end <= from || s.start >= to) continue;
+    const r = row(s.employeeId);
+    r.shifts.push(s);
+    if (!s.clockOut) r.open = true;
+    if (missedMeal(s, mealRequiredAfterHours)) r.missedMeals.push(s);
+    for (const [a, b] of workedIntervals(s)) {
+      for (const [key, h] of hoursByDay(Math.max(a, from), Math.min(b, to))) {
+        const i = days.indexOf(key);
+        if (i >= 0) {
+          r.daily[i] += h;
+          r.total += h;
+        }
+      }
+    }
+  }
+  for (const o of orphans) {
+    const t = Date.parse(o.event.ts);
+    if (t >= from && t < to) row(o.event.employeeId).orphans.push(o);
+  }
+
+  return [...rows.values()].sort((a, b) =>
+    (a.employee?.lastName || a.employeeId).localeCompare(b.employee?.lastName || b.employeeId)
+  );
+}
+
+export const fmtHours = (h: number) => (h ? h.toFixed(2) : "—");
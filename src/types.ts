@@ -0,0 +1,326 @@
+/* --------------------------------- Types ---------------------------------- */
+export interface WebAuthnCredential {
+  credentialId: string; // base64url
+  publicKey: string; // base64url SPKI
+  alg: number; // COSE algorithm (-7 ES256, -257 RS256)
+  signCount: number;
+  software?: boolean; // testing stand-in, see webauthn.ts
+  createdAt: string;
+}
+
+export interface PinCredential {
+  hash: string; // base64url PBKDF2-SHA256
+  salt: string; // base64url
+  iterations: number;
+  failedAttempts: number;
+  lockedUntil?: string;
+}
+
+export interface Employee {
+  id: string;
+  orgId: string;
+  siteId: string;
+  employeeId: string;
+  firstName: string;
+  lastName: string;
+  phone?: string; // phone, address and selfies are vault-encrypted once the keyring exists
+  address?: string;
+  status: "pending" | "active" | "disabled";
+  createdAt: string;
+  profileSelfie?: string;
+  webauthn?: WebAuthnCredential;
+  badgeId?: string; // RFID/magstripe card number, unique within the org
+  pin?: PinCredential;
+  erasedAt?: string; // privacy erase, see employees.ts; never reactivated
+  faceTemplate?: string; // from the profile selfie, vault-encrypted; see facematch.ts
+  legalHold?: LegalHold; // suspends retention purges of everything about the employee
+}
+
+export interface LegalHold {
+  since: string;
+  by: string;
+  reason: string;
+}
+
+export type PunchType = "clock-in" | "clock-out" | "break-start" | "break-end" | "meal-start" | "meal-end";
+export type PunchStatus = "out" | "in" | "break" | "meal";
+
+/** Set on punches recorded despite an invalid transition; cleared from review once acknowledged. */
+export interface PunchException {
+  code: "invalid-transition";
+  from: PunchStatus;
+  attempted: PunchType;
+  reviewedAt?: string;
+}
+
+/** Clock-in/clock-out compared with the employee's schedule when recorded, see schedule.ts. */
+export type ScheduleTag = "on-time" | "late" | "early" | "unscheduled";
+
+/** A planned shift: one date or a weekly pattern. Local "HH:mm" times; an end before the start is the next day. */
+export interface ScheduleRule {
+  id: string;
+  orgId: string;
+  siteId: string;
+  employeeId: string; // internal id reference
+  date?: string; // YYYY-MM-DD, one-off shift
+  weekdays?: number[]; // 0 = Sunday, weekly pattern
+  validFrom?: string; // YYYY-MM-DD, weekly patterns only
+  validUntil?: string;
+  start: string;
+  end: string;
+  createdAt: string;
+}
+
+/** Punch selfie compared with the employee's profile photo, see facematch.ts. */
+export interface FaceMatch {
+  result: "match" | "low" | "no-profile" | "pending";
+  score?: number; // 0..1
+  probe?: string; // while pending: the selfie's template, vault-encrypted like the profile one
+  scoredAt?: string; // a pending match scored later
+  hash?: string; // seals the later score and the review onto the event hash, see chain.ts
+  review?: { at: string; by: string; verdict: "same-person" | "different-person" };
+}
+
+/** Punch selfie stored in its own blob store; the event keeps this small reference. */
+export interface SelfieRef {
+  thumb?: string; // THUMB_SIZE px JPEG data URL, vault-encrypted with the image; missing on older selfies
+  size: number; // bytes stored
+  encrypted?: boolean;
+}
+
+export type LivenessChallenge = "blink" | "turn-left" | "turn-right";
+
+/** Challenge-response check run while the punch selfie was taken, see liveness.ts. */
+export interface Liveness {
+  challenge: LivenessChallenge;
+  result: "pass" | "fail";
+}
+
+export type AmendmentReason = "missed-punch" | "wrong-time" | "wrong-type" | "duplicate" | "device-error" | "other";
+
+/** One manager correction to a punch; the list on an event is append-only. */
+export interface Amendment {
+  id: string;
+  at: string;
+  by: string;
+  action: "create" | "edit" | "void";
+  reason: AmendmentReason;
+  note?: string;
+  changes: { field: "ts" | "type" | "voided"; from?: string; to?: string }[];
+  hash?: string; // links to the previous amendment (or the event hash), see chain.ts
+}
+
+export interface EventRecord {
+  id: string;
+  orgId: string;
+  siteId: string;
+  deviceId: string;
+  employeeId: string; // internal id reference
+  type: PunchType;
+  ts: string;
+  factors: {
+    // nfc = RFID tap, badge = magstripe swipe, manual = entered by a manager
+    identity: "employeeId" | "fingerprint" | "nfc" | "qr" | "badge" | "manual";
+    biometric: "strong" | "weak" | "simulated" | "none";
+  };
+  selfie?: SelfieRef; // the full image is stored apart, see selfies.ts
+  offlineSeq: number;
+  synced: boolean;
+  exception?: PunchException;
+  schedule?: ScheduleTag;
+  faceMatch?: FaceMatch;
+  liveness?: Liveness;
+  voided?: boolean;
+  amendments?: Amendment[];
+  prevHash?: string; // hash of the previous event on this device (by offlineSeq), see chain.ts
+  hash?: string;
+  hashFormat?: number; // which fields `hash` covers (chain.ts); missing = 1
+}
+
+/** AES-GCM ciphertext; salt/iterations are set when the key comes from an access code (PBKDF2). */
+export interface WrappedSecret {
+  iv: string; // base64url
+  data: string; // base64url
+  salt?: string;
+  iterations?: number;
+}
+
+/** Device encryption keys for PII at rest, see vault.ts. */
+export interface Keyring {
+  keyId: string;
+  publicKey: string; // base64url SPKI, ECDH P-256
+  privateKey: WrappedSecret; // PKCS8 under the vault key
+  recovery: WrappedSecret; // vault key under the recovery key
+  createdAt: string;
+  rotatedAt?: string;
+  retired?: RetiredKey[]; // earlier device keys, kept until nothing is encrypted under them
+}
+
+export interface RetiredKey {
+  keyId: string;
+  privateKey: WrappedSecret; // PKCS8 under the vault key
+  retiredAt: string;
+}
+
+export type ManagerRole = "supervisor" | "admin";
+
+export interface ManagerAccount {
+  id: string;
+  username: string; // login name, unique on the device (lowercase)
+  name: string;
+  role: ManagerRole;
+  credential?: PinCredential; // PBKDF2 hash of the access code (lockout is device-wide, see LoginThrottle)
+  legacyCodeHash?: string; // SHA-256 of the old shared admin code; replaced by `credential` on first login
+  vaultKey?: WrappedSecret; // PII vault key under this account's access code
+  disabled?: boolean;
+  createdAt: string;
+}
+
+/** Who did what, for manager actions that are not recorded on the punch itself. */
+export interface AuditEntry {
+  id: string;
+  at: string;
+  by: string; // ManagerAccount.username, or "system" for scheduled jobs
+  action:
+    | "employee-approve"
+    | "employee-disable"
+    | "employee-import"
+    | "employee-edit"
+    | "employee-move"
+    | "employee-erase"
+    | "schedule-change"
+    | "roll-call"
+    | "site-change"
+    | "face-review"
+    | "legal-hold"
+    | "settings-change"
+    | "export"
+    | "account-change"
+    | "device-enroll"
+    | "device-revoke"
+    | "data-purge";
+  detail?: string;
+}
+
+/** Failed manager sign-ins on this device; drives the progressive lockout in accounts.ts. */
+export interface LoginThrottle {
+  failedAttempts: number;
+  lockedUntil?: string;
+}
+
+/** A past org/site binding of this device, kept when enrollment is revoked. */
+export interface DeviceBinding {
+  orgId: string;
+  siteId: string;
+  deviceId: string;
+  enrolledAt?: string;
+  revokedAt: string;
+}
+
+export interface DeviceSettings {
+  enrolled: boolean;
+  orgId: string; // "" until enrolled
+  siteId: string;
+  deviceId: string; // generated at each enrollment
+  enrolledAt?: string;
+  enrollmentPublicKey?: string; // base64url SPKI (ECDSA P-256) that enrollment tokens must be signed for
+  bindings?: DeviceBinding[];
+  online: boolean; // manual switch; sync also requires navigator.onLine
+  syncEndpoint?: string; // events are POSTed here; sync is idle while unset
+  selfieRetentionWeeks: number;
+  requireSelfie: boolean;
+  requireStrongBiometric: boolean; // no hold fallback once the employee has a WebAuthn credential
+  allowSoftwareAuthenticator?: boolean; // testing only: enroll software credentials instead of platform ones
+  pinPolicy?: "off" | "if-set" | "required"; // default "if-set": ask employees who have a PIN
+  invalidPunchPolicy?: "warn" | "block"; // default "warn": record with an exception flag
+  mealRequiredAfterHours?: number; // shifts longer than this need a meal break (default 6)
+  lateGraceMinutes?: number; // schedule grace windows (default 5 each), see schedule.ts
+  earlyGraceMinutes?: number;
+  faceMatchThreshold?: number; // punches scoring below go to review (default 0.7)
+  livenessPolicy?: "off" | "flag" | "block"; // selfie liveness check; default "off"
+  retention?: RetentionPolicy; // punch selfies keep using selfieRetentionWeeks
+  chainAnchor?: ChainAnchor; // newest event removed by a retention purge, see chain.ts
+  loginThrottle?: LoginThrottle;
+  adminCodeHash?: string; // legacy shared code; migrated to an "admin" ManagerAccount on load
+  badgeKey?: string; // base64url HMAC key for QR badges, shared by the org's kiosks
+  keyring?: Keyring; // created at the first admin sign-in
+}
+
+export type RetentionClass = "events" | "selfies" | "employees" | "profilePhotos" | "rollCalls";
+
+/** Days to keep each data class; a missing entry keeps it forever. See retention.ts. */
+export type RetentionPolicy = Partial<Record<Exclude<RetentionClass, "selfies">, number>>;
+
+/** Where the remaining hash chain continues from once older events have been purged. */
+export interface ChainAnchor {
+  offlineSeq: number;
+  hash?: string;
+}
+
+/** One retention purge, kept for compliance audits. */
+export interface PurgeRecord {
+  id: string;
+  at: string;
+  trigger: "scheduled" | "manual";
+  by?: string; // ManagerAccount.username for manual runs
+  policy: Record<RetentionClass, number | null>; // days in force, null = keep
+  removed: Record<RetentionClass, number>;
+  held: number; // items past retention kept for a legal hold
+  waiting: number; // items past retention kept until they are synced
+  events?: { fromSeq: number; toSeq: number }; // offlineSeq range removed
+}
+
+/** A site in the org's registry. */
+export interface Site {
+  id: string;
+  orgId: string;
+  siteId: string; // the site code enrollment tokens, employees and punches carry
+  name: string;
+  timeZone?: string; // IANA, e.g. "America/Chicago"
+  address?: string;
+  createdAt: string;
+}
+
+/** A saved emergency roll call: everyone on site when it was saved, and who was accounted for. */
+export interface RollCall {
+  id: string;
+  orgId: string;
+  siteId: string;
+  startedAt: string; // first person ticked off
+  savedAt: string;
+  by: string; // ManagerAccount.username
+  entries: {
+    employeeId: string; // internal id reference
+    status: "in" | "break" | "meal";
+    clockedInAt: string;
+    accountedAt?: string;
+  }[];
+}
+
+export interface DB {
+  employees: Employee[];
+  events: EventRecord[];
+  device: DeviceSettings;
+  pendingSeq: number;
+  managers: ManagerAccount[];
+  audit: AuditEntry[];
+  schedules: ScheduleRule[];
+  rollCalls: RollCall[];
+  sites: Site[];
+  purgeLog: PurgeRecord[];
+}
+
+/**
+ * Persist the store. Handlers that awaited something since they read `db`
+ * pass a function so the change lands on the latest state (sync acks and
+ * purges made in the meantime are kept).
+ */
+export type SaveDB = (next: DB | ((cur: DB) => DB)) => Promise<void>;
+
+/**
+ * Add a punch to the store. Appends run one at a time and each takes its
+ * offlineSeq and chain link from the latest state, so punches finishing
+ * close together never share a seq or link to the same predecessor.
+ * `also` applies further changes in the same save.
+ */
+export type AppendEvent = (ev: EventRecord, also?: (cur: DB) => DB) => Promise<void>;
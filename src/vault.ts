@@ -0,0 +1,392 @@
+import { useEffect, useState } from "react";
+import type { DB, Employee, EventRecord, Keyring, SaveDB, WrappedSecret } from "./types";
+import { fromB64url, nowISO, toB64url } from "./util";
+
+/* ============================================================================
+   PII VAULT (encryption at rest)
+   - Employee phone, address, profile selfie, face template and punch
+     selfies (with their thumbnails) are stored as
+     "enc1.<keyId>.<ephemeral pub>.<iv>.<ciphertext>" (ECIES: ECDH P-256 +
+     AES-GCM 256). The kiosk encrypts with the device public key and can't
+     read anything back; synced selfies travel in the same encrypted form.
+   - The device private key is AES-GCM encrypted under a vault key. The vault
+     key is never stored in the clear, only wrapped:
+       · per manager account, under a PBKDF2 key from their access code
+       · once under a random recovery key shown to the admin at setup
+   - Manager sign-in unwraps the vault for the session (decrypts in manager
+     views only); sign-out / idle timeout locks it again
+   - Rotation replaces the device key pair; the new keyring is saved first
+     with the old private key kept (still under the vault key) in
+     keyring.retired. settleVault then re-encrypts field by field, picking
+     the private key by the keyId in each value, and drops a retired key
+     only once nothing refers to it. The first encryption after setup runs
+     the same way, so an interrupted run resumes at the next sign-in. The
+     vault key, account wraps and recovery key stay valid
+   - Lost key: any admin can re-wrap the vault after unlocking with the
+     recovery key. Without any code or the recovery key the encrypted fields
+     are unreadable and can only be discarded (Settings > Danger Zone).
+============================================================================ */
+
+const PREFIX = "enc1";
+const ITERATIONS = 100_000;
+const EC = { name: "ECDH", namedCurve: "P-256" } as const;
+const enc = new TextEncoder();
+const dec = new TextDecoder();
+
+type Bytes = Uint8Array<ArrayBuffer>;
+
+interface Session {
+  vault: CryptoKey;
+  keys: Map<string, CryptoKey>; // device private keys by keyId: the current one and any retired
+}
+
+let session: Session | null = null;
+const listeners = new Set<() => void>();
+const notify = () => listeners.forEach((l) => l());
+
+export const isEncrypted = (v?: string) => !!v?.startsWith(`${PREFIX}.`);
+export const isUnlocked = () => !!session;
+
+export function lockVault() {
+  if (!session) return;
+  session = null;
+  notify();
+}
+
+/* ------------------------------ Primitives -------------------------------- */
+const random = (n: number) => crypto.getRandomValues(new Uint8Array(n));
+
+async function seal(key: CryptoKey, data: Bytes): Promise<WrappedSecret> {
+  const iv = random(12);
+  const ct = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, data);
+  return { iv: toB64url(iv), data: toB64url(ct) };
+}
+
+async function open(key: CryptoKey, w: WrappedSecret): Promise<Bytes> {
+  const pt = await crypto.subtle.decrypt({ name: "AES-GCM", iv: fromB64url(w.iv) }, key, fromB64url(w.data));
+  return new Uint8Array(pt);
+}
+
+const aesKey = (raw: Bytes) => crypto.subtle.importKey("raw", raw, "AES-GCM", false, ["encrypt", "decrypt"]);
+
+async function codeKey(code: string, salt: Bytes, iterations: number) {
+  const base = await crypto.subtle.importKey("raw", enc.encode(code), "PBKDF2", false, ["deriveKey"]);
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    base,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+/* ----------------------------- Vault wrapping ----------------------------- */
+async function exportVault() {
+  if (!session) throw new Error("Encrypted data is locked. Sign in again.");
+  return new Uint8Array(await crypto.subtle.exportKey("raw", session.vault));
+}
+
+/** The unlocked vault key wrapped under `code` (for a manager account). */
+export async function wrapVaultForCode(code: string): Promise<WrappedSecret> {
+  const salt = random(16);
+  const w = await seal(await codeKey(code, salt, ITERATIONS), await exportVault());
+  return { ...w, salt: toB64url(salt), iterations: ITERATIONS };
+}
+
+async function unlockWith(keyring: Keyring, vaultRaw: Bytes) {
+  const vault = await crypto.subtle.importKey("raw", vaultRaw, "AES-GCM", true, ["encrypt", "decrypt"]);
+  const keys = new Map<string, CryptoKey>();
+  for (const k of [keyring, ...(keyring.retired || [])]) {
+    keys.set(k.keyId, await crypto.subtle.importKey("pkcs8", await open(vault, k.privateKey), EC, false, ["deriveKey"]));
+  }
+  session = { vault, keys };
+  notify();
+}
+
+/** Unlock with a manager's access code; false if the wrap doesn't open. */
+export async function unlockWithCode(keyring: Keyring, wrap: WrappedSecret, code: string) {
+  try {
+    const key = await codeKey(code, fromB64url(wrap.salt as string), wrap.iterations as number);
+    await unlockWith(keyring, await open(key, wrap));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export async function unlockWithRecoveryKey(keyring: Keyring, recoveryKey: string) {
+  try {
+    const raw = fromB64url(recoveryKey.replace(/[\s-]+/g, "").replace(/\./g, "-"));
+    await unlockWith(keyring, await open(await aesKey(raw), keyring.recovery));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Grouped for writing down; the dashes are ignored when it is typed back in. */
+const formatRecoveryKey = (raw: Bytes) => (toB64url(raw).replace(/-/g, ".").match(/.{1,4}/g) || []).join("-");
+
+async function newRecovery(vaultRaw: Bytes) {
+  const raw = random(32);
+  return { recovery: await seal(await aesKey(raw), vaultRaw), recoveryKey: formatRecoveryKey(raw) };
+}
+
+/** Replace the recovery key; the old one stops working. */
+export async function rotateRecoveryKey(keyring: Keyring) {
+  const { recovery, recoveryKey } = await newRecovery(await exportVault());
+  return { keyring: { ...keyring, recovery }, recoveryKey };
+}
+
+/* ------------------------------ Device keys ------------------------------- */
+async function newDeviceKeys(vault: CryptoKey) {
+  const pair = (await crypto.subtle.generateKey(EC, true, ["deriveKey"])) as CryptoKeyPair;
+  const spki = await crypto.subtle.exportKey("spki", pair.publicKey);
+  const pkcs8 = new Uint8Array(await crypto.subtle.exportKey("pkcs8", pair.privateKey));
+  return {
+    keyId: toB64url(random(6)),
+    publicKey: toB64url(spki),
+    privateKey: await seal(vault, pkcs8),
+    pair,
+  };
+}
+
+/**
+ * First-time setup, run while the first admin signs in with `code`. Returns
+ * the keyring, that admin's vault wrap and the recovery key to show once.
+ * The vault is left unlocked for the session.
+ */
+export async function createKeyring(code: string) {
+  const vaultRaw = random(32);
+  const vault = await crypto.subtle.importKey("raw", vaultRaw, "AES-GCM", true, ["encrypt", "decrypt"]);
+  const { pair, ...keys } = await newDeviceKeys(vault);
+  const { recovery, recoveryKey } = await newRecovery(vaultRaw);
+  const keyring: Keyring = { ...keys, recovery, createdAt: nowISO() };
+  session = { vault, keys: new Map([[keyring.keyId, pair.privateKey]]) };
+  notify();
+  return { keyring, wrap: await wrapVaultForCode(code), recoveryKey };
+}
+
+/**
+ * New device key pair. The current private key moves to `retired` so values
+ * under it stay readable; save the returned keyring, then settleVault.
+ * Requires an unlocked vault.
+ */
+export async function rotateDeviceKey(keyring: Keyring): Promise<Keyring> {
+  if (!session) throw new Error("Encrypted data is locked. Sign in again.");
+  const { pair, ...keys } = await newDeviceKeys(session.vault);
+  const at = nowISO();
+  const retired = [...(keyring.retired || []), { keyId: keyring.keyId, privateKey: keyring.privateKey, retiredAt: at }];
+  session = { ...session, keys: new Map(session.keys).set(keys.keyId, pair.privateKey) };
+  notify();
+  return { ...keyring, ...keys, retired, rotatedAt: at };
+}
+
+/* -------------------------------- Fields ---------------------------------- */
+const publicKeys = new Map<string, Promise<CryptoKey>>();
+
+function publicKeyOf(keyring: Keyring) {
+  let k = publicKeys.get(keyring.publicKey);
+  if (!k) {
+    k = crypto.subtle.importKey("spki", fromB64url(keyring.publicKey), EC, false, []);
+    publicKeys.set(keyring.publicKey, k);
+  }
+  return k;
+}
+
+const fieldKey = (privateKey: CryptoKey, publicKey: CryptoKey) =>
+  crypto.subtle.deriveKey({ name: "ECDH", public: publicKey }, privateKey, { name: "AES-GCM", length: 256 }, false, [
+    "encrypt",
+    "decrypt",
+  ]);
+
+export async function encryptField(keyring: Keyring, plain: string) {
+  const eph = (await crypto.subtle.generateKey(EC, true, ["deriveKey"])) as CryptoKeyPair;
+  const key = await fieldKey(eph.privateKey, await publicKeyOf(keyring));
+  const { iv, data } = await seal(key, enc.encode(plain));
+  const epk = toB64url(await crypto.subtle.exportKey("raw", eph.publicKey));
+  return [PREFIX, keyring.keyId, epk, iv, data].join(".");
+}
+
+async function decryptWith(privateKey: CryptoKey, value: string) {
+  const [, , epk, iv, data] = value.split(".");
+  const pub = await crypto.subtle.importKey("raw", fromB64url(epk), EC, false, []);
+  return dec.decode(await open(await fieldKey(privateKey, pub), { iv, data }));
+}
+
+const keyIdOf = (value: string) => value.split(".")[1];
+
+/** Plain text of `value`; passes unencrypted values through. Throws while locked. */
+export async function decryptField(value: string) {
+  if (!isEncrypted(value)) return value;
+  if (!session) throw new Error("Encrypted data is locked.");
+  const key = session.keys.get(keyIdOf(value));
+  if (!key) throw new Error("Encrypted under a device key this keyring no longer has.");
+  return decryptWith(key, value);
+}
+
+/** Encrypt whatever isn't yet; a no-op before the keyring exists. */
+async function maybeEncrypt(keyring: Keyring | undefined, v: string | undefined) {
+  return keyring && v && !isEncrypted(v) ? encryptField(keyring, v) : v;
+}
+
+// the face template is biometric data (facematch.ts)
+const employeeValues = (e: Employee) => [e.phone, e.address, e.profileSelfie, e.faceTemplate];
+
+export async function encryptEmployee(keyring: Keyring | undefined, e: Employee): Promise<Employee> {
+  const [phone, address, profileSelfie, faceTemplate] = await Promise.all(employeeValues(e).map((v) => maybeEncrypt(keyring, v)));
+  return { ...e, phone, address, profileSelfie, faceTemplate };
+}
+
+export async function encryptEvent(keyring: Keyring | undefined, e: EventRecord): Promise<EventRecord> {
+  if (!e.selfie) return e;
+  return { ...e, selfie: { ...e.selfie, thumb: await maybeEncrypt(keyring, e.selfie.thumb) } };
+}
+
+/** Rewrites every value kept outside the DB object (punch selfie images, db.ts mapEventSelfies). */
+export type StoredValues = (fn: (value: string) => Promise<string | undefined>) => Promise<void>;
+
+/* ------------------------------- Migration -------------------------------- */
+/** Plain text, or ciphertext under a retired key: still to be encrypted under the current key. */
+const unsettled = (keyring: Keyring, v?: string): v is string => !!v && (!isEncrypted(v) || keyIdOf(v) !== keyring.keyId);
+
+const eventValues = (e: EventRecord) => [e.selfie?.thumb, e.faceMatch?.probe];
+
+/** Whether settleVault has work left: a retired key, plain text, or a value under a retired key. */
+export function needsSettling(db: DB) {
+  const keyring = db.device.keyring;
+  if (!keyring) return false;
+  if (keyring.retired?.length) return true;
+  return (
+    db.employees.some((e) => employeeValues(e).some((v) => unsettled(keyring, v))) ||
+    db.events.some((e) => (e.selfie && !e.selfie.encrypted) || eventValues(e).some((v) => unsettled(keyring, v)))
+  );
+}
+
+let settling: Promise<unknown> = Promise.resolve();
+
+/**
+ * Bring everything under `keyring`'s current key: plain text from before
+ * setup and values under retired keys. Stored selfies are rewritten one at a
+ * time; record fields go through `save` onto the latest state, matched by
+ * value, so a sync ack or purge made meanwhile is kept. Safe to re-run
+ * after an interruption. Retired keys are dropped in that same save once
+ * nothing refers to them; resolves true when that point is reached.
+ */
+export function settleVault(keyring: Keyring, db: DB, stored: StoredValues, save: SaveDB): Promise<boolean> {
+  // one run at a time: a rotation during a sign-in's run waits for it
+  const run = settling.then(() => settle(keyring, db, stored, save));
+  settling = run.catch(() => undefined);
+  return run;
+}
+
+async function settle(keyring: Keyring, db: DB, stored: StoredValues, save: SaveDB) {
+  let unreadable = 0;
+  const reencrypt = async (v: string) => {
+    try {
+      return await encryptField(keyring, await decryptField(v));
+    } catch {
+      unreadable++; // locked meanwhile, or a corrupt value: the retired key stays
+      return v;
+    }
+  };
+  await stored(async (v) => (unsettled(keyring, v) ? reencrypt(v) : v));
+
+  const values = new Map<string, string>();
+  for (const v of [...db.employees.flatMap(employeeValues), ...db.events.flatMap(eventValues)]) {
+    if (unsettled(keyring, v) && !values.has(v)) values.set(v, await reencrypt(v));
+  }
+  const swap = (v?: string) => (v && values.get(v)) || v;
+  const known = new Set(db.events.map((e) => e.id));
+  let settled = false;
+  await save((cur) => {
+    const current = cur.device.keyring;
+    // rotated again meanwhile: that rotation settles it
+    if (current?.keyId !== keyring.keyId) return cur;
+    const employees = cur.employees.map((e) =>
+      employeeValues(e).some((v) => v && values.has(v))
+        ? {
+            ...e,
+            phone: swap(e.phone),
+            address: swap(e.address),
+            profileSelfie: swap(e.profileSelfie),
+            faceTemplate: swap(e.faceTemplate),
+          }
+        : e
+    );
+    const events = cur.events.map((e) => {
+      let out = e;
+      if (e.faceMatch?.probe && values.has(e.faceMatch.probe)) out = { ...out, faceMatch: { ...e.faceMatch, probe: swap(e.faceMatch.probe) } };
+      // only selfies the pass above saw are known to be stored encrypted
+      if (!e.selfie || !known.has(e.id)) return out;
+      const thumb = swap(e.selfie.thumb);
+      return thumb === e.selfie.thumb && e.selfie.encrypted ? out : { ...out, selfie: { ...e.selfie, thumb, encrypted: true } };
+    });
+    const next = { ...cur, employees, events };
+    const dropped = { ...next, device: { ...cur.device, keyring: { ...current, retired: undefined } } };
+    settled = !unreadable && cur.events.every((e) => !e.selfie || known.has(e.id)) && !needsSettling(dropped);
+    return settled && current.retired ? dropped : next;
+  });
+  return settled;
+}
+
+/** Drop every encrypted field (unrecoverable key) and start a fresh keyring at next admin sign-in. */
+export function discardEncrypted(db: DB): DB {
+  const clear = (v?: string) => (isEncrypted(v) ? undefined : v);
+  lockVault();
+  return {
+    ...db,
+    employees: db.employees.map((e) => ({
+      ...e,
+      phone: clear(e.phone),
+      address: clear(e.address),
+      profileSelfie: clear(e.profileSelfie),
+      faceTemplate: clear(e.faceTemplate),
+    })),
+    // dropping the ref deletes the stored image (db.ts); a pending face match without its probe scores as no-profile
+    events: db.events.map((e) => {
+      const out = e.selfie?.encrypted ? { ...e, selfie: undefined } : e;
+      return isEncrypted(e.faceMatch?.probe) ? { ...out, faceMatch: { ...e.faceMatch!, probe: undefined } } : out;
+    }),
+    managers: db.managers.map((m) => ({ ...m, vaultKey: undefined })),
+    device: { ...db.device, keyring: undefined },
+  };
+}
+
+/* --------------------------------- Hooks ---------------------------------- */
+/** Whether the vault is unlocked, re-rendering on lock and unlock. */
+export function useVaultUnlocked() {
+  const [unlocked, setUnlocked] = useState(isUnlocked);
+
+  useEffect(() => {
+    const l = () => setUnlocked(isUnlocked());
+    listeners.add(l);
+    return () => {
+      listeners.delete(l);
+    };
+  }, []);
+
+  return unlocked;
+}
+
+/** Decrypted `value` while the vault is unlocked, otherwise null. */
+export function useDecrypted(value: string | undefined) {
+  const [state, setState] = useState<{ value?: string; plain: string | null }>({ plain: null });
+  const unlocked = useVaultUnlocked();
+
+  useEffect(() => {
+    let cancelled = false;
+    if (!value) return;
+    if (!isEncrypted(value)) return setState({ value, plain: value });
+    if (!unlocked) return setState({ value, plain: null });
+    decryptField(value).then(
+      (plain) => !cancelled && setState({ value, plain }),
+      () => !cancelled && setState({ value, plain: null })
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [value, unlocked]);
+
+  return value && state.value === value ? state.plain : null;
+}
@@ -0,0 +1,210 @@
+import type { Employee, WebAuthnCredential } from "./types";
+import { fromB64url, nowISO, toB64url } from "./util";
+
+/* ============================================================================
+   WEBAUTHN (platform authenticator, user verification required)
+   - Enrollment stores credential id + SPKI public key on the Employee
+   - Punch-time assertions are verified on-device: challenge, origin, rpId
+     hash, UP/UV flags, signature and sign counter
+   - The software authenticator is a stand-in for testing on machines with
+     no platform authenticator. It produces real assertions verified by the
+     same code, but punches made with it are recorded as "simulated".
+============================================================================ */
+
+const ES256 = -7;
+const RS256 = -257;
+const FLAG_UP = 0x01;
+const FLAG_UV = 0x04;
+const SOFT_KEYS = "bw_soft_authn"; // testing only: software authenticator key material
+
+/* ------------------------------- Encoding --------------------------------- */
+type Bytes = Uint8Array<ArrayBuffer>;
+
+const randomBytes = (n: number) => crypto.getRandomValues(new Uint8Array(n));
+const sha256Bytes = async (data: BufferSource) => new Uint8Array(await crypto.subtle.digest("SHA-256", data));
+const concat = (...parts: Uint8Array[]): Bytes => {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let at = 0;
+  for (const p of parts) {
+    out.set(p, at);
+    at += p.length;
+  }
+  return out;
+};
+
+// WebAuthn ES256 signatures are ASN.1 DER; WebCrypto wants raw r||s.
+function derToRaw(der: Uint8Array): Bytes {
+  const readInt = (at: number) => {
+    const len = der[at + 1];
+    let int = der.slice(at + 2, at + 2 + len);
+    while (int.length > 32 && int[0] === 0) int = int.slice(1);
+    const out = new Uint8Array(32);
+    out.set(int, 32 - int.length);
+    return { int: out, next: at + 2 + len };
+  };
+  const r = readInt(2);
+  const s = readInt(r.next);
+  return concat(r.int, s.int);
+}
+
+function rawToDer(raw: Uint8Array) {
+  const int = (x: Uint8Array) => {
+    let i = 0;
+    while (i < x.length - 1 && x[i] === 0) i++;
+    const v = x.slice(i);
+    const body = v[0] & 0x80 ? concat(new Uint8Array([0]), v) : v;
+    return concat(new Uint8Array([0x02, body.length]), body);
+  };
+  const seq = concat(int(raw.slice(0, 32)), int(raw.slice(32)));
+  return concat(new Uint8Array([0x30, seq.length]), seq);
+}
+
+/* -------------------------------- Platform -------------------------------- */
+export async function platformAvailable() {
+  if (!window.PublicKeyCredential) return false;
+  return PublicKeyCredential.isUserVerifyingPlatformAuthenticatorAvailable().catch(() => false);
+}
+
+async function createPlatform(emp: Pick<Employee, "id" | "employeeId" | "firstName" | "lastName">) {
+  const cred = (await navigator.credentials.create({
+    publicKey: {
+      challenge: randomBytes(32),
+      rp: { name: "Timeclock Kiosk" },
+      user: {
+        id: new TextEncoder().encode(emp.id),
+        name: emp.employeeId,
+        displayName: `${emp.firstName} ${emp.lastName}`,
+      },
+      pubKeyCredParams: [
+        { type: "public-key", alg: ES256 },
+        { type: "public-key", alg: RS256 },
+      ],
+      authenticatorSelection: {
+        authenticatorAttachment: "platform",
+        userVerification: "required",
+        residentKey: "discouraged",
+      },
+      attestation: "none",
+      timeout: 60_000,
+    },
+  })) as PublicKeyCredential | null;
+  if (!cred) throw new Error("Registration was cancelled");
+  const res = cred.response as AuthenticatorAttestationResponse;
+  const spki = res.getPublicKey();
+  if (!spki) throw new Error("Authenticator did not return a usable public key");
+  return { credentialId: toB64url(cred.rawId), publicKey: toB64url(spki), alg: res.getPublicKeyAlgorithm() };
+}
+
+interface Assertion {
+  clientDataJSON: Bytes;
+  authenticatorData: Bytes;
+  signature: Bytes;
+}
+
+async function getPlatform(credentialId: string, challenge: Bytes): Promise<Assertion> {
+  const cred = (await navigator.credentials.get({
+    publicKey: {
+      challenge,
+      allowCredentials: [{ type: "public-key", id: fromB64url(credentialId), transports: ["internal"] }],
+      userVerification: "required",
+      timeout: 60_000,
+    },
+  })) as PublicKeyCredential | null;
+  if (!cred) throw new Error("Verification was cancelled");
+  const res = cred.response as AuthenticatorAssertionResponse;
+  return {
+    clientDataJSON: new Uint8Array(res.clientDataJSON),
+    authenticatorData: new Uint8Array(res.authenticatorData),
+    signature: new Uint8Array(res.signature),
+  };
+}
+
+/* ------------------------- Software (testing only) ------------------------ */
+type SoftKeys = Record<string, { jwk: JsonWebKey; counter: number }>;
+const readSoft = (): SoftKeys => JSON.parse(localStorage.getItem(SOFT_KEYS) || "{}");
+const writeSoft = (keys: SoftKeys) => localStorage.setItem(SOFT_KEYS, JSON.stringify(keys));
+
+async function createSoftware() {
+  const pair = await crypto.subtle.generateKey({ name: "ECDSA", namedCurve: "P-256" }, true, ["sign", "verify"]);
+  const credentialId = toB64url(randomBytes(16));
+  writeSoft({ ...readSoft(), [credentialId]: { jwk: await crypto.subtle.exportKey("jwk", pair.privateKey), counter: 0 } });
+  const spki = await crypto.subtle.exportKey("spki", pair.publicKey);
+  return { credentialId, publicKey: toB64url(spki), alg: ES256 };
+}
+
+async function getSoftware(credentialId: string, challenge: Bytes): Promise<Assertion> {
+  const keys = readSoft();
+  const entry = keys[credentialId];
+  if (!entry) throw new Error("Software credential not found on this device");
+  entry.counter += 1;
+  writeSoft(keys);
+
+  const key = await crypto.subtle.importKey("jwk", entry.jwk, { name: "ECDSA", namedCurve: "P-256" }, false, ["sign"]);
+  const clientDataJSON = new TextEncoder().encode(
+    JSON.stringify({ type: "webauthn.get", challenge: toB64url(challenge), origin: location.origin })
+  );
+  const counter = new Uint8Array(4);
+  new DataView(counter.buffer).setUint32(0, entry.counter);
+  const authenticatorData = concat(
+    await sha256Bytes(new TextEncoder().encode(location.hostname)),
+    new Uint8Array([FLAG_UP | FLAG_UV]),
+    counter
+  );
+  const signed = concat(authenticatorData, await sha256Bytes(clientDataJSON));
+  const raw = new Uint8Array(await crypto.subtle.sign({ name: "ECDSA", hash: "SHA-256" }, key, signed));
+  return { clientDataJSON, authenticatorData, signature: rawToDer(raw) };
+}
+
+/* -------------------------------- Verify ---------------------------------- */
+async function verifyAssertion(cred: WebAuthnCredential, challenge: Bytes, a: Assertion) {
+  const client = JSON.parse(new TextDecoder().decode(a.clientDataJSON));
+  if (client.type !== "webauthn.get") throw new Error("Unexpected client data type");
+  if (client.challenge !== toB64url(challenge)) throw new Error("Challenge mismatch");
+  if (client.origin !== location.origin) throw new Error("Origin mismatch");
+
+  const rpIdHash = await sha256Bytes(new TextEncoder().encode(location.hostname));
+  if (toB64url(a.authenticatorData.slice(0, 32)) !== toB64url(rpIdHash)) throw new Error("Relying party mismatch");
+  const flags = a.authenticatorData[32];
+  if (!(flags & FLAG_UP) || !(flags & FLAG_UV)) throw new Error("User was not verified by the authenticator");
+  const signCount = new DataView(a.authenticatorData.buffer, a.authenticatorData.byteOffset).getUint32(33);
+  // counters that stop increasing indicate a cloned authenticator (0 = counter not supported)
+  if (signCount !== 0 && signCount <= cred.signCount) throw new Error("Authenticator counter did not advance");
+
+  const signed = concat(a.authenticatorData, await sha256Bytes(a.clientDataJSON));
+  const spki = fromB64url(cred.publicKey);
+  let ok: boolean;
+  if (cred.alg === ES256) {
+    const key = await crypto.subtle.importKey("spki", spki, { name: "ECDSA", namedCurve: "P-256" }, false, ["verify"]);
+    ok = await crypto.subtle.verify({ name: "ECDSA", hash: "SHA-256" }, key, derToRaw(a.signature), signed);
+  } else if (cred.alg === RS256) {
+    const key = await crypto.subtle.importKey("spki", spki, { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" }, false, [
+      "verify",
+    ]);
+    ok = await crypto.subtle.verify("RSASSA-PKCS1-v1_5", key, a.signature, signed);
+  } else {
+    throw new Error(`Unsupported algorithm ${cred.alg}`);
+  }
+  if (!ok) throw new Error("Signature check failed");
+  return signCount;
+}
+
+/* --------------------------------- Public --------------------------------- */
+export async function enrollCredential(
+  emp: Pick<Employee, "id" | "employeeId" | "firstName" | "lastName">,
+  { software = false } = {}
+): Promise<WebAuthnCredential> {
+  if (!software && !(await platformAvailable())) {
+    throw new Error("No platform authenticator (fingerprint/face) is available on this device");
+  }
+  const created = software ? await createSoftware() : await createPlatform(emp);
+  return { ...created, signCount: 0, software: software || undefined, createdAt: nowISO() };
+}
+
+/** Prompt for the employee's authenticator and verify it. Resolves with the new sign count; throws on failure. */
+export async function verifyCredential(cred: WebAuthnCredential) {
+  const challenge = randomBytes(32);
+  const assertion = cred.software
+    ? await getSoftware(cred.credentialId, challenge)
+    : await getPlatform(cred.credentialId, challenge);
+  return verifyAssertion(cred, challenge, assertion);
+}